@@ -1,9 +1,70 @@
 const express = require('express');
+const fs = require('fs');
 const path = require('path');
 const port = process.env.PORT || 8080;
 const app = express();
 
+// The shared leaderboard is kept in a JSON file next to the server, unless another location is configured
+const scoresFile = process.env.SCORES_FILE || path.join(__dirname, 'scores.json');
+const MAX_HIGH_SCORES = 10;
+
+/**
+ * Read the stored high scores, treating a missing or unreadable file as an empty leaderboard
+ */
+function readScores() {
+    try {
+        const scores = JSON.parse(fs.readFileSync(scoresFile, 'utf8'));
+        return Array.isArray(scores) ? scores : [];
+    } catch (error) {
+        return [];
+    }
+}
+
+/**
+ * Check a submitted score has every field the leaderboard needs and return a clean copy of it, or null if it's invalid
+ */
+function parseScore(body) {
+    if (!body || typeof body.initials !== 'string' || !/^[A-Z]{1,3}$/.test(body.initials)) {
+        return null;
+    }
+
+    const numberFields = ['score', 'distance', 'seed'];
+    if (numberFields.some((field) => typeof body[field] !== 'number' || !isFinite(body[field]))) {
+        return null;
+    }
+
+    return {
+        initials: body.initials,
+        score: body.score,
+        distance: body.distance,
+        seed: body.seed,
+        date: new Date().toISOString()
+    };
+}
+
+app.use(express.json());
+
 // the __dirname is the current directory from where the script is running
 app.use(express.static(__dirname + '/dist'));
 
+app.get('/api/scores', (req, res) => {
+    res.json(readScores());
+});
+
+app.post('/api/scores', (req, res) => {
+    const score = parseScore(req.body);
+    if (!score) {
+        res.status(400).json({ error: 'Invalid score' });
+        return;
+    }
+
+    const scores = readScores()
+        .concat(score)
+        .sort((score1, score2) => score2.score - score1.score)
+        .slice(0, MAX_HIGH_SCORES);
+
+    fs.writeFileSync(scoresFile, JSON.stringify(scores, null, 2));
+    res.json(scores);
+});
+
 app.listen(port);
\ No newline at end of file
@@ -1,11 +1,35 @@
-import { iImage } from "./Interfaces/iImage";
+import { iHitbox } from "./Interfaces/iHitbox";
+import { iImageManifest } from "./Interfaces/iImage";
+import { iObstacleType } from "./Interfaces/iObstacleType";
+import { iParticleEffect } from "./Interfaces/iParticleEffect";
+import { iSound } from "./Interfaces/iSound";
 
 export const GAME_CANVAS = 'skiCanvas';
-export const GAME_WIDTH = window.innerWidth;
-export const GAME_HEIGHT = window.innerHeight;
 export const SPEED_INCREASE_THRESHOLD = 300;
+
+/**
+ * Entities speed up by this many world units per second each time the SPEED_INCREASE_THRESHOLD is met.
+ */
+export const SPEED_INCREASE_PER_THRESHOLD = 60;
 export const OBSTACLE_FREQUENCY_INCREASE_THRESHOLD = 400;
 
+/**
+ * The abstract actions the player can perform. Every input device is mapped to these, so nothing in the game needs to
+ * know which device an input came from.
+ */
+export enum ACTIONS {
+    TURN_LEFT = 'turnLeft',
+    TURN_RIGHT = 'turnRight',
+    UP = 'up',
+    DOWN = 'down',
+    JUMP = 'jump',
+    PAUSE = 'pause',
+    RESET = 'reset',
+    SAVE_REPLAY = 'saveReplay',
+    CONTROLS = 'controls',
+    MUTE = 'mute'
+};
+
 export enum KEYS {
     LEFT = "ArrowLeft",
     RIGHT = "ArrowRight",
@@ -14,6 +38,32 @@ export enum KEYS {
     SPACE = " ",
     PAUSE = "f",
     RESET = "r",
+    SAVE_REPLAY = "s",
+    CONTROLS = "c",
+    MUTE = "m",
+};
+
+/**
+ * The default key each action is bound to. Players can rebind them from the controls screen.
+ */
+export const DEFAULT_KEY_BINDINGS: {[action in ACTIONS]: string} = {
+    [ACTIONS.TURN_LEFT]: KEYS.LEFT,
+    [ACTIONS.TURN_RIGHT]: KEYS.RIGHT,
+    [ACTIONS.UP]: KEYS.UP,
+    [ACTIONS.DOWN]: KEYS.DOWN,
+    [ACTIONS.JUMP]: KEYS.SPACE,
+    [ACTIONS.PAUSE]: KEYS.PAUSE,
+    [ACTIONS.RESET]: KEYS.RESET,
+    [ACTIONS.SAVE_REPLAY]: KEYS.SAVE_REPLAY,
+    [ACTIONS.CONTROLS]: KEYS.CONTROLS,
+    [ACTIONS.MUTE]: KEYS.MUTE
+};
+
+/**
+ * The ways the skier can die, as shown on the game over screen.
+ */
+export enum CAUSES_OF_DEATH {
+    EATEN_BY_RHINO = 'Eaten by the rhino'
 };
 
 export enum IMAGE_NAMES {
@@ -41,36 +91,327 @@ export enum IMAGE_NAMES {
     RHINO_EAT3 = 'rhinoEat3',
     RHINO_EAT4 = 'rhinoEat4',
     RHINO_CELEBRATE1 = 'rhinoCelebrate1',
-    RHINO_CELEBRATE2 = 'rhinoCelebrate2'
-};
-
-export const IMAGES: iImage[] = [
-    { name: IMAGE_NAMES.SKIER_CRASH, url: 'img/skier_crash.png' },
-    { name: IMAGE_NAMES.SKIER_LEFT, url: 'img/skier_left.png' },
-    { name: IMAGE_NAMES.SKIER_LEFTDOWN, url: 'img/skier_left_down.png' },
-    { name: IMAGE_NAMES.SKIER_DOWN, url: 'img/skier_down.png' },
-    { name: IMAGE_NAMES.SKIER_RIGHTDOWN, url: 'img/skier_right_down.png' },
-    { name: IMAGE_NAMES.SKIER_RIGHT, url: 'img/skier_right.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP1, url: 'img/skier_jump_1.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP2, url: 'img/skier_jump_2.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP3, url: 'img/skier_jump_3.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP4, url: 'img/skier_jump_4.png' },
-    { name: IMAGE_NAMES.SKIER_JUMP5, url: 'img/skier_jump_5.png' },
-    { name: IMAGE_NAMES.JUMP_RAMP, url: 'img/jump_ramp.png' },
-    { name: IMAGE_NAMES.TREE, url: 'img/tree_1.png' },
-    { name: IMAGE_NAMES.TREE_CLUSTER, url: 'img/tree_cluster.png' },
-    { name: IMAGE_NAMES.ROCK1, url: 'img/rock_1.png' },
-    { name: IMAGE_NAMES.ROCK2, url: 'img/rock_2.png' },
-    { name: IMAGE_NAMES.RHINO, url: 'img/rhino_default.png' },
-    { name: IMAGE_NAMES.RHINO_RUN1, url: 'img/rhino_run_left.png' },
-    { name: IMAGE_NAMES.RHINO_RUN2, url: 'img/rhino_run_left_2.png' },
-    { name: IMAGE_NAMES.RHINO_EAT1, url: 'img/rhino_eat_1.png' },
-    { name: IMAGE_NAMES.RHINO_EAT2, url: 'img/rhino_eat_2.png' },
-    { name: IMAGE_NAMES.RHINO_EAT3, url: 'img/rhino_eat_3.png' },
-    { name: IMAGE_NAMES.RHINO_EAT4, url: 'img/rhino_eat_4.png' },
-    { name: IMAGE_NAMES.RHINO_CELEBRATE1, url: 'img/rhino_celebrate_1.png' },
-    { name: IMAGE_NAMES.RHINO_CELEBRATE2, url: 'img/rhino_celebrate_2.png' }
+    RHINO_CELEBRATE2 = 'rhinoCelebrate2',
+    FLAG_RED = 'flagRed',
+    FLAG_BLUE = 'flagBlue'
+};
+
+export enum ATLAS_NAMES {
+    CHARACTERS = 'characters'
+};
+
+/**
+ * The manifest of every image in the game. The skier and rhino are packed into an atlas, as they swap frames all the
+ * time, while everything else is its own file. The sizes are the natural pixel sizes of the images, so sprite sizes (and
+ * therefore collisions) are known without having to load any images, e.g. when running headless.
+ */
+export const IMAGES: iImageManifest = {
+    atlases: [
+        { name: ATLAS_NAMES.CHARACTERS, url: 'img/characters.png', framesUrl: 'img/characters.json' }
+    ],
+    images: [
+        { name: IMAGE_NAMES.SKIER_CRASH, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.SKIER_LEFT, atlas: ATLAS_NAMES.CHARACTERS, width: 55, height: 47 },
+        { name: IMAGE_NAMES.SKIER_LEFTDOWN, atlas: ATLAS_NAMES.CHARACTERS, width: 45, height: 59 },
+        { name: IMAGE_NAMES.SKIER_DOWN, atlas: ATLAS_NAMES.CHARACTERS, width: 38, height: 61 },
+        { name: IMAGE_NAMES.SKIER_RIGHTDOWN, atlas: ATLAS_NAMES.CHARACTERS, width: 45, height: 59 },
+        { name: IMAGE_NAMES.SKIER_RIGHT, atlas: ATLAS_NAMES.CHARACTERS, width: 55, height: 47 },
+        { name: IMAGE_NAMES.SKIER_JUMP1, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.SKIER_JUMP2, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.SKIER_JUMP3, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.SKIER_JUMP4, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.SKIER_JUMP5, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.JUMP_RAMP, url: 'img/jump_ramp.png', width: 43, height: 9 },
+        { name: IMAGE_NAMES.TREE, url: 'img/tree_1.png', width: 43, height: 53 },
+        { name: IMAGE_NAMES.TREE_CLUSTER, url: 'img/tree_cluster.png', width: 88, height: 91 },
+        { name: IMAGE_NAMES.ROCK1, url: 'img/rock_1.png', width: 40, height: 28 },
+        { name: IMAGE_NAMES.ROCK2, url: 'img/rock_2.png', width: 49, height: 28 },
+        { name: IMAGE_NAMES.RHINO, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.RHINO_RUN1, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.RHINO_RUN2, atlas: ATLAS_NAMES.CHARACTERS, width: 64, height: 65 },
+        { name: IMAGE_NAMES.RHINO_EAT1, atlas: ATLAS_NAMES.CHARACTERS, width: 64, height: 65 },
+        { name: IMAGE_NAMES.RHINO_EAT2, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.RHINO_EAT3, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.RHINO_EAT4, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.RHINO_CELEBRATE1, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.RHINO_CELEBRATE2, atlas: ATLAS_NAMES.CHARACTERS, width: 65, height: 65 },
+        { name: IMAGE_NAMES.FLAG_RED, url: 'img/flag_red.png', width: 24, height: 48 },
+        { name: IMAGE_NAMES.FLAG_BLUE, url: 'img/flag_blue.png', width: 24, height: 48 }
+    ]
+};
+
+export enum SOUND_NAMES {
+    TURN = 'turn',
+    JUMP = 'jump',
+    LAND = 'land',
+    CRASH = 'crash',
+    RHINO_ROAR = 'rhinoRoar',
+    RHINO_EAT = 'rhinoEat',
+    MUSIC = 'music'
+};
+
+/**
+ * The manifest of every sound in the game.
+ */
+export const SOUNDS: iSound[] = [
+    { name: SOUND_NAMES.TURN, url: 'audio/turn.wav' },
+    { name: SOUND_NAMES.JUMP, url: 'audio/jump.wav' },
+    { name: SOUND_NAMES.LAND, url: 'audio/land.wav' },
+    { name: SOUND_NAMES.CRASH, url: 'audio/crash.wav' },
+    { name: SOUND_NAMES.RHINO_ROAR, url: 'audio/roar.wav' },
+    { name: SOUND_NAMES.RHINO_EAT, url: 'audio/eat.wav' },
+    { name: SOUND_NAMES.MUSIC, url: 'audio/music.wav' }
+];
+
+/**
+ * The volume controls. Sound effects and music each have their own volume, and both are scaled by the master volume.
+ */
+export enum AUDIO_CHANNELS {
+    MASTER = 'master',
+    EFFECTS = 'effects',
+    MUSIC = 'music'
+};
+
+export enum PARTICLE_EFFECT_NAMES {
+    SNOW_SPRAY = 'snowSpray',
+    SKI_TRAIL = 'skiTrail',
+    CRASH_BURST = 'crashBurst',
+    LANDING_DUST = 'landingDust',
+    RHINO_DUST = 'rhinoDust'
+};
+
+/**
+ * The particle effects entities can emit. Snow sprays up the slope when the skier turns, bursts out in every
+ * direction when they crash and puffs up around them as they land a jump. The skier leaves a trail that fades away
+ * behind them, and the running rhino kicks up dust.
+ */
+export const PARTICLE_EFFECTS: {[name in PARTICLE_EFFECT_NAMES]: iParticleEffect} = {
+    [PARTICLE_EFFECT_NAMES.SNOW_SPRAY]: {
+        count: 8, scatter: 6, direction: -Math.PI / 2, spread: Math.PI / 2, minSpeed: 40, maxSpeed: 140, drag: 0.05,
+        lifetime: 500, startSize: 4, endSize: 1, color: '160, 185, 210', opacity: 0.9
+    },
+    [PARTICLE_EFFECT_NAMES.SKI_TRAIL]: {
+        count: 1, scatter: 0, direction: 0, spread: 0, minSpeed: 0, maxSpeed: 0, drag: 1,
+        lifetime: 1500, startSize: 3, endSize: 3, color: '190, 205, 222', opacity: 0.8
+    },
+    [PARTICLE_EFFECT_NAMES.CRASH_BURST]: {
+        count: 24, scatter: 8, direction: 0, spread: Math.PI, minSpeed: 60, maxSpeed: 220, drag: 0.02,
+        lifetime: 800, startSize: 5, endSize: 1, color: '150, 175, 205', opacity: 1
+    },
+    [PARTICLE_EFFECT_NAMES.LANDING_DUST]: {
+        count: 14, scatter: 10, direction: 0, spread: Math.PI, minSpeed: 30, maxSpeed: 100, drag: 0.08,
+        lifetime: 500, startSize: 4, endSize: 2, color: '175, 195, 215', opacity: 0.8
+    },
+    [PARTICLE_EFFECT_NAMES.RHINO_DUST]: {
+        count: 2, scatter: 8, direction: -Math.PI / 2, spread: Math.PI / 3, minSpeed: 20, maxSpeed: 60, drag: 0.1,
+        lifetime: 600, startSize: 3, endSize: 7, color: '165, 155, 145', opacity: 0.5
+    }
+};
+
+/**
+ * The different ways the game can be played. Endless is the original game, skiing for as long as possible with the
+ * rhino giving chase. Slalom is a race through pairs of flags to the finish line, against the clock.
+ */
+export enum GAME_MODES {
+    ENDLESS = 'endless',
+    SLALOM = 'slalom'
+};
+
+/**
+ * The backends the game can be drawn with. WebGL is used wherever it's supported, as it keeps up on busy slopes, and the
+ * 2D canvas is used everywhere else.
+ */
+export enum RENDERER_TYPES {
+    CANVAS_2D = 'canvas',
+    WEBGL = 'webgl'
+};
+
+/**
+ * Hitboxes shared by several frames of the same animation.
+ */
+const SKIER_JUMP_HITBOX: iHitbox = {
+    shapes: [{ type: 'rect', x: -15, y: -27, width: 30, height: 42 }]
+};
+const RHINO_HITBOX: iHitbox = {
+    shapes: [
+        { type: 'rect', x: -22, y: -26, width: 35, height: 50 },
+        { type: 'circle', x: 19, y: 1, radius: 7 }
+    ]
+};
+
+/**
+ * The hitbox of each sprite, traced from the visible pixels so collisions match what's drawn rather than the whole
+ * image. Trees only block the skier at their trunks while skiing, as the skier passes behind the branches.
+ */
+export const HITBOXES: {[key in IMAGE_NAMES]?: iHitbox} = {
+    [IMAGE_NAMES.SKIER_CRASH]: { shapes: [{ type: 'circle', x: -10, y: 10, radius: 18 }] },
+    [IMAGE_NAMES.SKIER_LEFT]: {
+        shapes: [
+            { type: 'rect', x: -15, y: -23, width: 30, height: 41 },
+            { type: 'rect', x: -27, y: 19, width: 48, height: 4 }
+        ]
+    },
+    [IMAGE_NAMES.SKIER_LEFTDOWN]: {
+        shapes: [
+            { type: 'rect', x: -15, y: -29, width: 29, height: 44 },
+            { type: 'rect', x: -21, y: 15, width: 25, height: 14 }
+        ]
+    },
+    [IMAGE_NAMES.SKIER_DOWN]: { shapes: [{ type: 'rect', x: -10, y: -18, width: 22, height: 46 }] },
+    [IMAGE_NAMES.SKIER_RIGHTDOWN]: {
+        shapes: [
+            { type: 'rect', x: -14, y: -29, width: 29, height: 44 },
+            { type: 'rect', x: -4, y: 15, width: 25, height: 14 }
+        ]
+    },
+    [IMAGE_NAMES.SKIER_RIGHT]: {
+        shapes: [
+            { type: 'rect', x: -15, y: -23, width: 30, height: 41 },
+            { type: 'rect', x: -21, y: 19, width: 48, height: 4 }
+        ]
+    },
+    [IMAGE_NAMES.SKIER_JUMP1]: SKIER_JUMP_HITBOX,
+    [IMAGE_NAMES.SKIER_JUMP2]: SKIER_JUMP_HITBOX,
+    [IMAGE_NAMES.SKIER_JUMP3]: SKIER_JUMP_HITBOX,
+    [IMAGE_NAMES.SKIER_JUMP4]: SKIER_JUMP_HITBOX,
+    [IMAGE_NAMES.SKIER_JUMP5]: SKIER_JUMP_HITBOX,
+    [IMAGE_NAMES.JUMP_RAMP]: { shapes: [{ type: 'rect', x: -20, y: -4, width: 40, height: 8 }] },
+    [IMAGE_NAMES.TREE]: {
+        shapes: [
+            { type: 'rect', x: -8, y: -26, width: 10, height: 16 },
+            { type: 'circle', x: -1, y: 2, radius: 19 },
+            { type: 'rect', x: -6, y: 21, width: 8, height: 5 }
+        ],
+        trunk: [{ type: 'rect', x: -6, y: 21, width: 8, height: 5 }]
+    },
+    [IMAGE_NAMES.TREE_CLUSTER]: {
+        shapes: [
+            { type: 'circle', x: -24, y: -18, radius: 17 },
+            { type: 'circle', x: 27, y: -10, radius: 17 },
+            { type: 'circle', x: -4, y: 20, radius: 18 },
+            { type: 'rect', x: -29, y: -6, width: 10, height: 9 },
+            { type: 'rect', x: 23, y: 6, width: 10, height: 9 },
+            { type: 'rect', x: -8, y: 36, width: 10, height: 9 }
+        ],
+        trunk: [
+            { type: 'rect', x: -29, y: -6, width: 10, height: 9 },
+            { type: 'rect', x: 23, y: 6, width: 10, height: 9 },
+            { type: 'rect', x: -8, y: 36, width: 10, height: 9 }
+        ]
+    },
+    [IMAGE_NAMES.ROCK1]: {
+        shapes: [
+            { type: 'rect', x: -20, y: -13, width: 22, height: 12 },
+            { type: 'rect', x: -2, y: 0, width: 22, height: 14 }
+        ]
+    },
+    [IMAGE_NAMES.ROCK2]: {
+        shapes: [
+            { type: 'rect', x: -24, y: -13, width: 31, height: 21 },
+            { type: 'rect', x: 6, y: 2, width: 18, height: 12 }
+        ]
+    },
+    [IMAGE_NAMES.RHINO]: RHINO_HITBOX,
+    [IMAGE_NAMES.RHINO_RUN1]: RHINO_HITBOX,
+    [IMAGE_NAMES.RHINO_RUN2]: RHINO_HITBOX,
+    [IMAGE_NAMES.RHINO_EAT1]: RHINO_HITBOX,
+    [IMAGE_NAMES.RHINO_EAT2]: RHINO_HITBOX,
+    [IMAGE_NAMES.RHINO_EAT3]: RHINO_HITBOX,
+    [IMAGE_NAMES.RHINO_EAT4]: RHINO_HITBOX,
+    [IMAGE_NAMES.RHINO_CELEBRATE1]: RHINO_HITBOX,
+    [IMAGE_NAMES.RHINO_CELEBRATE2]: RHINO_HITBOX
+};
+
+/**
+ * The different types of obstacles that can be placed in the game.
+ */
+export enum OBSTACLE_NAMES {
+    TREE = 'tree',
+    TREE_CLUSTER = 'treeCluster',
+    ROCK1 = 'rock1',
+    ROCK2 = 'rock2',
+    JUMP_RAMP = 'jumpRamp'
+};
+
+/**
+ * The layers the game is drawn in, from the bottom up. Everything in a layer is drawn over everything in the layers
+ * below it. Flat things like ramps and trails lie on the ground, anything standing on the slope is in the world layer
+ * and anything flying over it, like a jumping skier, is in the air. The HUD is drawn over everything.
+ */
+export enum RENDER_LAYERS {
+    GROUND = 0,
+    WORLD = 1,
+    AIR = 2,
+    HUD = 3
+};
+
+/**
+ * The obstacle type registry. Each type declares its image, how often it's placed and how the skier and rhino interact
+ * with it. The skier crashes into trees, but can jump over rocks, and a ramp launches them into a jump. The rhino can't
+ * get through trees or rocks and has to go around them, but it runs over ramps, slowed down while it does. Ramps lie
+ * flat on the ground, so they're drawn under everything else.
+ */
+export const OBSTACLE_TYPES: iObstacleType[] = [
+    {
+        name: OBSTACLE_NAMES.TREE, image: IMAGE_NAMES.TREE, spawnWeight: 1, hitboxInset: 0,
+        jumpable: false, crash: true, triggersJump: false, slowsDown: true,
+        blocksRhino: true, layer: RENDER_LAYERS.WORLD
+    },
+    {
+        name: OBSTACLE_NAMES.TREE_CLUSTER, image: IMAGE_NAMES.TREE_CLUSTER, spawnWeight: 1, hitboxInset: 0,
+        jumpable: false, crash: true, triggersJump: false, slowsDown: true,
+        blocksRhino: true, layer: RENDER_LAYERS.WORLD
+    },
+    {
+        name: OBSTACLE_NAMES.ROCK1, image: IMAGE_NAMES.ROCK1, spawnWeight: 1, hitboxInset: 0,
+        jumpable: true, crash: true, triggersJump: false, slowsDown: true,
+        blocksRhino: true, layer: RENDER_LAYERS.WORLD
+    },
+    {
+        name: OBSTACLE_NAMES.ROCK2, image: IMAGE_NAMES.ROCK2, spawnWeight: 1, hitboxInset: 0,
+        jumpable: true, crash: true, triggersJump: false, slowsDown: true,
+        blocksRhino: true, layer: RENDER_LAYERS.WORLD
+    },
+    {
+        name: OBSTACLE_NAMES.JUMP_RAMP, image: IMAGE_NAMES.JUMP_RAMP, spawnWeight: 1, hitboxInset: 0,
+        jumpable: true, crash: false, triggersJump: true, slowsDown: true,
+        blocksRhino: false, layer: RENDER_LAYERS.GROUND
+    }
 ];
 
+/**
+ * How long each frame of an animation is shown for, unless the animation gives its frames their own timing.
+ */
 export const ANIMATION_FRAME_SPEED_MS: number = 250;
+
+/**
+ * How an animation plays through its frames. Once stops on the last frame and finishes, loop starts over from the first
+ * frame and ping-pong turns around at each end, playing back and forth for as long as it's running.
+ */
+export enum ANIMATION_MODES {
+    ONCE = 'once',
+    LOOP = 'loop',
+    PING_PONG = 'pingPong'
+};
+
+/**
+ * Named events that frames of an animation can fire when they start showing, for the entity to react to.
+ */
+export enum ANIMATION_EVENTS {
+    LANDING_DUST = 'landingDust',
+    RHINO_CHOMP = 'rhinoChomp'
+};
+
+/**
+ * The simulation always advances in steps of this length, no matter how often the display refreshes. All speeds are
+ * given in world units per second and scaled by the step length.
+ */
+export const SIMULATION_STEP_MS: number = 1000 / 60;
+export const SIMULATION_STEP_SECONDS: number = SIMULATION_STEP_MS / 1000;
+
+/**
+ * The longest frame the simulation will try to catch up on, so returning to a backgrounded tab doesn't fast forward
+ * through seconds of game time.
+ */
+export const MAX_FRAME_TIME_MS: number = 250;
 export const DIAGONAL_SPEED_REDUCER: number = 1.4142;
\ No newline at end of file
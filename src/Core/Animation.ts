@@ -1,42 +1,149 @@
 /**
- * Configuration for a single animation. Animations contain an array of images to play through. They can loop back
- * to the start when the full animation sequence has been played or they can not loop and just finish on the last image.
- * They can also have a callback set to fire when the animation sequence is complete.
+ * Configuration for a single animation. Animations contain a sequence of frames to play through, each with its own
+ * image and timing, and play through them once, on a loop or back and forth, either forwards or in reverse. Callbacks
+ * can be set to fire when a frame with a named event starts showing, and when an animation that plays once is complete.
  */
-import { IMAGE_NAMES } from "../Constants";
+import { ANIMATION_EVENTS, ANIMATION_MODES } from "../Constants";
+import { iAnimationFrame } from "../Interfaces/iAnimationFrame";
+import { iAnimationOptions } from "../Interfaces/iAnimationOptions";
+import { iAnimationPlayhead } from "../Interfaces/iAnimationPlayhead";
+
+/**
+ * A function called when something happens in an animation
+ */
+export type AnimationCallback = () => void;
 
 export class Animation {
 
     /**
-     * The sequence of images the animation cycles through
+     * The sequence of frames the animation plays through
+     */
+    private readonly frames: iAnimationFrame[];
+
+    /**
+     * How the animation plays through its frames
+     */
+    private readonly mode: ANIMATION_MODES;
+
+    /**
+     * Does the animation start on its last frame and play backwards?
+     */
+    private readonly reversed: boolean;
+
+    /**
+     * The speed the animation plays at its normal rate, if its rate follows the speed of the entity
      */
-    private readonly images: IMAGE_NAMES[];
+    private readonly baseSpeed?: number;
 
     /**
-     * Does the animation loop back to the beginning when complete?
+     * Functions to call when a frame with each event starts showing
      */
-    private readonly looping: boolean;
+    private eventCallbacks: {[event in ANIMATION_EVENTS]?: AnimationCallback[]} = {};
 
     /**
-     * Function to call when the animation is complete
+     * Functions to call when the animation is complete
      */
-    private readonly callback?: Function;
+    private completeCallbacks: AnimationCallback[] = [];
+
+    constructor(frames: iAnimationFrame[], mode: ANIMATION_MODES, options: iAnimationOptions = {}) {
+        this.frames = frames;
+        this.mode = mode;
+        this.reversed = options.reversed ?? false;
+        this.baseSpeed = options.baseSpeed;
+    }
+
+    /**
+     * Call the function given whenever a frame with the event starts showing. Returns the animation, so it can be
+     * setup in one go.
+     */
+    onEvent(event: ANIMATION_EVENTS, callback: AnimationCallback): Animation {
+        const callbacks = this.eventCallbacks[event] ?? [];
+        callbacks.push(callback);
+        this.eventCallbacks[event] = callbacks;
+
+        return this;
+    }
+
+    /**
+     * Call the function given when the animation is complete. Only animations that play once are ever complete.
+     * Returns the animation, so it can be setup in one go.
+     */
+    onComplete(callback: AnimationCallback): Animation {
+        this.completeCallbacks.push(callback);
+
+        return this;
+    }
 
-    constructor(images: IMAGE_NAMES[], looping: boolean, callback?: Function) {
-        this.images = images;
-        this.looping = looping;
-        this.callback = callback;
+    getFrames(): iAnimationFrame[] {
+        return this.frames;
     }
 
-    getImages(): IMAGE_NAMES[] {
-        return this.images;
+    getFrame(index: number): iAnimationFrame {
+        return this.frames[index];
     }
 
-    getLooping(): boolean {
-        return this.looping;
+    getMode(): ANIMATION_MODES {
+        return this.mode;
     }
 
-    getCallback(): Function | undefined {
-        return this.callback;
+    /**
+     * Where the animation starts playing from
+     */
+    getStart(): iAnimationPlayhead {
+        return this.reversed ?
+            { frame: this.frames.length - 1, direction: -1 } :
+            { frame: 0, direction: 1 };
+    }
+
+    /**
+     * Where the animation plays to after the given frame, or null if it's played all the way through and is complete.
+     */
+    getNext(playhead: iAnimationPlayhead): iAnimationPlayhead | null {
+        const frameCount = this.frames.length;
+        const nextFrame = playhead.frame + playhead.direction;
+        if(nextFrame >= 0 && nextFrame < frameCount) {
+            return { frame: nextFrame, direction: playhead.direction };
+        }
+
+        if(this.mode === ANIMATION_MODES.LOOP) {
+            return { frame: (nextFrame + frameCount) % frameCount, direction: playhead.direction };
+        }
+
+        if(this.mode === ANIMATION_MODES.PING_PONG) {
+            const direction = -playhead.direction;
+            return { frame: frameCount > 1 ? playhead.frame + direction : playhead.frame, direction };
+        }
+
+        return null;
+    }
+
+    /**
+     * How fast the animation plays for an entity moving at the given speed, as a multiple of its normal rate.
+     */
+    getPlaybackRate(speed: number): number {
+        if(!this.baseSpeed) {
+            return 1;
+        }
+
+        return Math.max(0, speed / this.baseSpeed);
+    }
+
+    /**
+     * Fire the callbacks for the event of the given frame, if it has one.
+     */
+    fireFrameEvent(index: number) {
+        const event = this.frames[index].event;
+        if(!event) {
+            return;
+        }
+
+        this.eventCallbacks[event]?.forEach((callback: AnimationCallback) => callback());
+    }
+
+    /**
+     * Fire the callbacks for the animation being complete.
+     */
+    fireComplete() {
+        this.completeCallbacks.forEach((callback: AnimationCallback) => callback());
     }
 }
\ No newline at end of file
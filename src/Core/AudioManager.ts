@@ -0,0 +1,305 @@
+/**
+ * Handles loading and playing any sounds needed for the game, using the Web Audio API. Sound effects are panned and
+ * quietened by where they happen in the world relative to the game window, and background music loops underneath them.
+ * The master, effects and music volumes, and whether the game is muted, are saved to local storage so they're kept
+ * across sessions. Where there's no Web Audio, such as when running headless, nothing is loaded and nothing plays.
+ */
+
+import { AUDIO_CHANNELS, SOUND_NAMES } from "../Constants";
+import { iSound } from "../Interfaces/iSound";
+import { Position, Rect } from "./Utils";
+
+const AUDIO_SETTINGS_STORAGE_KEY: string = 'cerosSkiAudioSettings';
+
+/**
+ * The volume of each channel, from 0 to 1, until the player changes them. Volumes change in steps of VOLUME_STEP.
+ */
+const DEFAULT_VOLUMES: {[channel in AUDIO_CHANNELS]: number} = {
+    [AUDIO_CHANNELS.MASTER]: 0.8,
+    [AUDIO_CHANNELS.EFFECTS]: 1,
+    [AUDIO_CHANNELS.MUSIC]: 0.5
+};
+const VOLUME_STEP: number = 0.1;
+
+/**
+ * How far a sound at the edge of the game window is panned to that side, from 0 (center) to 1 (fully to one side).
+ */
+const MAX_PAN: number = 0.8;
+
+/**
+ * Sounds outside the game window get quieter the further away they are, and can't be heard at all this many world
+ * units past its edge.
+ */
+const FALLOFF_DISTANCE: number = 800;
+
+/**
+ * The audio settings as they're saved
+ */
+interface iAudioSettings {
+    volumes: {[channel in AUDIO_CHANNELS]: number};
+    muted: boolean;
+}
+
+export class AudioManager {
+    loadedSounds: {[key in SOUND_NAMES]?: AudioBuffer} = {};
+
+    /**
+     * The manifest of sounds that can be loaded
+     */
+    sounds: iSound[];
+
+    /**
+     * The Web Audio context everything is played through, or null if there's no Web Audio or it hasn't been setup yet
+     */
+    private context: AudioContext | null = null;
+
+    /**
+     * The volume control of each channel. Effects and music both go through the master channel.
+     */
+    private channelGains: {[channel in AUDIO_CHANNELS]?: GainNode} = {};
+
+    private volumes: {[channel in AUDIO_CHANNELS]: number};
+
+    private muted: boolean;
+
+    /**
+     * The area of the world the player is looking at. Sound effects are heard relative to it.
+     */
+    private listenerArea: Rect | null = null;
+
+    /**
+     * Are sound effects being held back, e.g. while a replay is skipped through
+     */
+    private effectsSilenced: boolean = false;
+
+    /**
+     * The music that's currently looping, if any
+     */
+    private music: AudioBufferSourceNode | null = null;
+
+    constructor(sounds: iSound[]) {
+        this.sounds = sounds;
+
+        const settings = loadSettings();
+        this.volumes = settings.volumes;
+        this.muted = settings.muted;
+    }
+
+    /**
+     * Setup Web Audio and load each of the sounds in the manifest. Returns a promise that resolves when all sounds are
+     * finished loading. Browsers keep audio suspended until the player interacts with the page, so it's resumed on the
+     * first key press or touch.
+     */
+    async loadSounds(): Promise<void> {
+        if(typeof AudioContext === 'undefined') {
+            return;
+        }
+
+        this.context = new AudioContext();
+
+        const masterGain = this.context.createGain();
+        masterGain.connect(this.context.destination);
+        this.channelGains[AUDIO_CHANNELS.MASTER] = masterGain;
+
+        for(const channel of [AUDIO_CHANNELS.EFFECTS, AUDIO_CHANNELS.MUSIC]) {
+            const channelGain = this.context.createGain();
+            channelGain.connect(masterGain);
+            this.channelGains[channel] = channelGain;
+        }
+        this.applyVolumes();
+
+        const resume = () => {
+            this.context?.resume().catch((error: unknown) => console.error(error));
+            window.removeEventListener('keydown', resume);
+            window.removeEventListener('pointerdown', resume);
+        };
+        window.addEventListener('keydown', resume);
+        window.addEventListener('pointerdown', resume);
+
+        await Promise.all(this.sounds.map((sound: iSound) => this.loadSingleSound(sound)));
+    }
+
+    /**
+     * Load and decode a single sound. A sound that fails to load is logged and left out, rather than stopping the game
+     * from starting.
+     */
+    async loadSingleSound(sound: iSound): Promise<void> {
+        if(!this.context) {
+            return;
+        }
+
+        try {
+            const response = await fetch(sound.url);
+            const soundData = await response.arrayBuffer();
+            this.loadedSounds[sound.name] = await this.context.decodeAudioData(soundData);
+        } catch(error) {
+            console.error(error);
+        }
+    }
+
+    /**
+     * Set the area of the world the player is looking at, which sound effects are heard relative to.
+     */
+    setListenerArea(area: Rect) {
+        this.listenerArea = area;
+    }
+
+    /**
+     * Hold back sound effects, or let them play again.
+     */
+    silenceEffects(silenced: boolean) {
+        this.effectsSilenced = silenced;
+    }
+
+    /**
+     * Play a sound effect once. If it happened at a position in the world, it's panned towards the side of the game
+     * window it happened on and quietened the further outside the game window it was.
+     */
+    playEffect(name: SOUND_NAMES, position: Position | null = null) {
+        const buffer = this.loadedSounds[name];
+        const effectsGain = this.channelGains[AUDIO_CHANNELS.EFFECTS];
+        if(!this.context || !buffer || !effectsGain || this.effectsSilenced) {
+            return;
+        }
+
+        const { pan, gain } = position && this.listenerArea ?
+            getPositionalMix(position, this.listenerArea) :
+            { pan: 0, gain: 1 };
+        if(gain <= 0) {
+            return;
+        }
+
+        const source = this.context.createBufferSource();
+        source.buffer = buffer;
+
+        const panner = this.context.createStereoPanner();
+        panner.pan.value = pan;
+
+        const attenuation = this.context.createGain();
+        attenuation.gain.value = gain;
+
+        source.connect(panner);
+        panner.connect(attenuation);
+        attenuation.connect(effectsGain);
+        source.start();
+    }
+
+    /**
+     * Start looping a piece of music, replacing any music that's already playing.
+     */
+    playMusic(name: SOUND_NAMES) {
+        const buffer = this.loadedSounds[name];
+        const musicGain = this.channelGains[AUDIO_CHANNELS.MUSIC];
+        if(!this.context || !buffer || !musicGain) {
+            return;
+        }
+
+        this.stopMusic();
+
+        this.music = this.context.createBufferSource();
+        this.music.buffer = buffer;
+        this.music.loop = true;
+        this.music.connect(musicGain);
+        this.music.start();
+    }
+
+    stopMusic() {
+        if(this.music) {
+            this.music.stop();
+            this.music = null;
+        }
+    }
+
+    getVolume(channel: AUDIO_CHANNELS): number {
+        return this.volumes[channel];
+    }
+
+    /**
+     * Turn a channel's volume up or down a step, staying between 0 and 1, and save it.
+     */
+    changeVolume(channel: AUDIO_CHANNELS, direction: number) {
+        const steps = Math.round(this.volumes[channel] / VOLUME_STEP) + direction;
+        this.volumes[channel] = Math.max(0, Math.min(1, steps * VOLUME_STEP));
+
+        this.applyVolumes();
+        this.saveSettings();
+    }
+
+    isMuted(): boolean {
+        return this.muted;
+    }
+
+    /**
+     * Mute or unmute everything, and save it.
+     */
+    toggleMute() {
+        this.muted = !this.muted;
+
+        this.applyVolumes();
+        this.saveSettings();
+    }
+
+    /**
+     * Set each channel's volume control to its volume. Muting silences the master channel, so the volumes are kept for
+     * when it's unmuted. The change is heard straight away, even while the game is paused.
+     */
+    private applyVolumes() {
+        (Object.keys(this.volumes) as AUDIO_CHANNELS[]).forEach((channel: AUDIO_CHANNELS) => {
+            const channelGain = this.channelGains[channel];
+            if(!channelGain) {
+                return;
+            }
+
+            const isSilenced = channel === AUDIO_CHANNELS.MASTER && this.muted;
+            channelGain.gain.value = isSilenced ? 0 : this.volumes[channel];
+        });
+    }
+
+    private saveSettings() {
+        try {
+            const settings: iAudioSettings = { volumes: this.volumes, muted: this.muted };
+            localStorage.setItem(AUDIO_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+        } catch(error) {
+            console.error(error);
+        }
+    }
+}
+
+/**
+ * Load the saved audio settings. Any volume missing from the saved settings or out of range keeps its default, and if
+ * the saved settings are unreadable the defaults are used instead.
+ */
+function loadSettings(): iAudioSettings {
+    const volumes = { ...DEFAULT_VOLUMES };
+
+    try {
+        const savedSettings = JSON.parse(localStorage.getItem(AUDIO_SETTINGS_STORAGE_KEY) || '{}');
+        const savedVolumes = savedSettings.volumes ?? {};
+        (Object.keys(volumes) as AUDIO_CHANNELS[]).forEach((channel: AUDIO_CHANNELS) => {
+            const volume = savedVolumes[channel];
+            if(typeof volume === 'number' && volume >= 0 && volume <= 1) {
+                volumes[channel] = volume;
+            }
+        });
+
+        return { volumes, muted: savedSettings.muted === true };
+    } catch(error) {
+        return { volumes: { ...DEFAULT_VOLUMES }, muted: false };
+    }
+}
+
+/**
+ * Work out how a sound at a position in the world is heard from the listener's area: panned by how far across the
+ * area it is, and quietened by how far outside the area it is.
+ */
+function getPositionalMix(position: Position, area: Rect): { pan: number, gain: number } {
+    const centerX = (area.left + area.right) / 2;
+    const halfWidth = (area.right - area.left) / 2;
+    const pan = halfWidth ? Math.max(-1, Math.min(1, (position.x - centerX) / halfWidth)) * MAX_PAN : 0;
+
+    const outsideX = Math.max(area.left - position.x, 0, position.x - area.right);
+    const outsideY = Math.max(area.top - position.y, 0, position.y - area.bottom);
+    const gain = Math.max(0, 1 - Math.hypot(outsideX, outsideY) / FALLOFF_DISTANCE);
+
+    return { pan, gain };
+}
\ No newline at end of file
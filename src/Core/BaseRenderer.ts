@@ -0,0 +1,78 @@
+/**
+ * The part of a renderer that's the same for every backend: its size and the camera transform. The drawOffset is the
+ * point in the world at the top left of the screen and the zoom is how much the world is scaled up when drawn.
+ */
+
+import { iRenderer } from "../Interfaces/iRenderer";
+import { iSprite } from "../Interfaces/iSprite";
+import { Position, Rect } from "./Utils";
+
+/**
+ * Text and shapes are drawn in this color unless they're given one.
+ */
+export const DEFAULT_COLOR: string = '#000000';
+
+export abstract class BaseRenderer implements iRenderer {
+    width: number;
+
+    height: number;
+
+    drawOffset: Position = new Position(0, 0);
+
+    zoom: number = 1;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+    }
+
+    /**
+     * Change the size of the renderer, e.g. when the browser window is resized.
+     */
+    resize(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+    }
+
+    /**
+     * Set the camera transform, so that everything drawn in world coordinates is drawn relative to the coordinates
+     * passed in, scaled by the zoom.
+     */
+    setCameraTransform(x: number, y: number, zoom: number) {
+        this.drawOffset.x = x;
+        this.drawOffset.y = y;
+        this.zoom = zoom;
+    }
+
+    /**
+     * Convert world coordinates to where they're drawn on the screen, using the camera transform.
+     */
+    worldToScreen(x: number, y: number): Position {
+        return new Position((x - this.drawOffset.x) * this.zoom, (y - this.drawOffset.y) * this.zoom);
+    }
+
+    /**
+     * The area of the world that's drawn on the screen.
+     */
+    getVisibleArea(): Rect {
+        const { x, y } = this.drawOffset;
+        return new Rect(x, y, x + this.width / this.zoom, y + this.height / this.zoom);
+    }
+
+    /**
+     * Draw anything that's waiting to be drawn. Only needed by backends that batch their drawing.
+     */
+    flush() {
+
+    }
+
+    abstract clearCanvas(): void;
+
+    abstract drawSprite(sprite: iSprite, x: number, y: number, width: number, height: number): void;
+
+    abstract drawText(text: string, x: number, y: number, font: string): void;
+
+    abstract drawRect(x: number, y: number, width: number, height: number, color?: string): void;
+
+    abstract drawPolygon(points: Position[], color?: string): void;
+}
\ No newline at end of file
@@ -0,0 +1,180 @@
+/**
+ * The camera decides which part of the world is shown on the canvas. Rather than snapping to the skier, it follows them
+ * with some damping, looks further down the slope the faster they're heading down it and zooms out a little at speed.
+ * It owns the game window, the area of the world the game is played in, so it's moved with the simulation and a replay
+ * sees exactly the same world. Screen shake only moves what's drawn, never the game window.
+ */
+
+import { SIMULATION_STEP_SECONDS } from "../Constants";
+import { iRenderer } from "../Interfaces/iRenderer";
+import { Position, Rect } from "./Utils";
+
+/**
+ * How quickly the camera catches up with where it wants to be, per second. Higher is snappier.
+ */
+const FOLLOW_RATE: number = 6;
+
+/**
+ * However fast the target is going, the camera never falls so far behind them that they're further from the center of
+ * the game window than this fraction of its size.
+ */
+const MAX_FOLLOW_DISTANCE_FRACTION: number = 0.3;
+
+/**
+ * The camera looks ahead to where the target will be this many seconds from now at the speed they're heading down the
+ * slope, but never further than this fraction of the game window's height.
+ */
+const LOOK_AHEAD_SECONDS: number = 0.4;
+const MAX_LOOK_AHEAD_FRACTION: number = 0.25;
+
+/**
+ * The camera is fully zoomed in until the target heads down the slope faster than ZOOM_OUT_START_SPEED, then zooms out
+ * until it reaches MIN_ZOOM at ZOOM_OUT_FULL_SPEED, in world units per second. Zoom changes at ZOOM_RATE per second.
+ */
+const MAX_ZOOM: number = 1;
+const MIN_ZOOM: number = 0.8;
+const ZOOM_OUT_START_SPEED: number = 360;
+const ZOOM_OUT_FULL_SPEED: number = 900;
+const ZOOM_RATE: number = 1.5;
+
+/**
+ * How fast the screen shakes back and forth, in shakes per second. The vertical shake runs at a different frequency to
+ * the horizontal, so the shaking doesn't look like it's moving along a line.
+ */
+const SHAKE_FREQUENCY_X: number = 23;
+const SHAKE_FREQUENCY_Y: number = 29;
+
+export class Camera {
+    /**
+     * The point in the world at the center of the game window, now and as of the previous simulation step.
+     */
+    position: Position = new Position(0, 0);
+    previousPosition: Position = new Position(0, 0);
+
+    /**
+     * How much the world is scaled up when drawn, now and as of the previous simulation step. Below 1 shows more of it.
+     */
+    zoom: number = MAX_ZOOM;
+    previousZoom: number = MAX_ZOOM;
+
+    /**
+     * How far the screen shakes at its strongest, in world units, and how long the shake lasts for.
+     */
+    shakeStrength: number = 0;
+    shakeDuration: number = 0;
+
+    /**
+     * How long the current shake has been going on for
+     */
+    shakeTime: number = 0;
+
+    canvas: iRenderer;
+
+    constructor(canvas: iRenderer) {
+        this.canvas = canvas;
+    }
+
+    /**
+     * Put the camera straight onto a position, without following it there, and stop any shaking.
+     */
+    reset(position: Position) {
+        this.position = new Position(position.x, position.y);
+        this.previousPosition = new Position(position.x, position.y);
+        this.zoom = MAX_ZOOM;
+        this.previousZoom = MAX_ZOOM;
+        this.shakeDuration = 0;
+    }
+
+    /**
+     * Move the camera a single simulation step towards the target, looking ahead of them and zooming out by how fast
+     * they went down the slope since the previous step.
+     */
+    follow(targetPosition: Position, targetPreviousPosition: Position) {
+        this.previousPosition = new Position(this.position.x, this.position.y);
+        this.previousZoom = this.zoom;
+
+        const downhillSpeed = Math.max(0, targetPosition.y - targetPreviousPosition.y) / SIMULATION_STEP_SECONDS;
+        const zoomOut = (downhillSpeed - ZOOM_OUT_START_SPEED) / (ZOOM_OUT_FULL_SPEED - ZOOM_OUT_START_SPEED);
+        const targetZoom = MAX_ZOOM - (MAX_ZOOM - MIN_ZOOM) * Math.max(0, Math.min(1, zoomOut));
+        const zoomStep = ZOOM_RATE * SIMULATION_STEP_SECONDS;
+        this.zoom += Math.max(-zoomStep, Math.min(zoomStep, targetZoom - this.zoom));
+
+        const windowWidth = this.canvas.width / this.zoom;
+        const windowHeight = this.canvas.height / this.zoom;
+        const lookAhead = Math.min(downhillSpeed * LOOK_AHEAD_SECONDS, windowHeight * MAX_LOOK_AHEAD_FRACTION);
+
+        const damping = 1 - Math.exp(-FOLLOW_RATE * SIMULATION_STEP_SECONDS);
+        this.position.x += (targetPosition.x - this.position.x) * damping;
+        this.position.y += (targetPosition.y + lookAhead - this.position.y) * damping;
+
+        const maxDistanceX = windowWidth * MAX_FOLLOW_DISTANCE_FRACTION;
+        const maxDistanceY = windowHeight * MAX_FOLLOW_DISTANCE_FRACTION;
+        const distanceX = Math.max(-maxDistanceX, Math.min(maxDistanceX, this.position.x - targetPosition.x));
+        const distanceY = Math.max(-maxDistanceY, Math.min(maxDistanceY, this.position.y - targetPosition.y));
+        this.position = new Position(targetPosition.x + distanceX, targetPosition.y + distanceY);
+
+        if(this.isShaking()) {
+            this.shakeTime += SIMULATION_STEP_SECONDS * 1000;
+        }
+    }
+
+    /**
+     * Start the screen shaking, e.g. when the skier crashes. A stronger shake takes over from a weaker one.
+     */
+    shake(strength: number, durationMs: number) {
+        if(this.isShaking() && this.getShakeStrength() > strength) {
+            return;
+        }
+
+        this.shakeStrength = strength;
+        this.shakeDuration = durationMs;
+        this.shakeTime = 0;
+    }
+
+    isShaking(): boolean {
+        return this.shakeTime < this.shakeDuration;
+    }
+
+    /**
+     * How far the screen is shaking right now. The shake dies down over its duration.
+     */
+    getShakeStrength(): number {
+        return this.isShaking() ? this.shakeStrength * (1 - this.shakeTime / this.shakeDuration) : 0;
+    }
+
+    /**
+     * The area of the world the game is played in, centered on the camera. Zooming out makes it bigger.
+     */
+    getGameWindow(): Rect {
+        const halfWidth = this.canvas.width / this.zoom / 2;
+        const halfHeight = this.canvas.height / this.zoom / 2;
+
+        return new Rect(
+            this.position.x - halfWidth,
+            this.position.y - halfHeight,
+            this.position.x + halfWidth,
+            this.position.y + halfHeight
+        );
+    }
+
+    /**
+     * Point the canvas at where the camera is drawn, part way between the last two simulation steps, and add any
+     * shaking on top.
+     */
+    applyToCanvas(alpha: number) {
+        const zoom = this.previousZoom + (this.zoom - this.previousZoom) * alpha;
+        const x = this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha;
+        const y = this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha;
+
+        const shakeStrength = this.getShakeStrength();
+        const shakeSeconds = this.shakeTime / 1000;
+        const shakeX = shakeStrength * Math.sin(2 * Math.PI * SHAKE_FREQUENCY_X * shakeSeconds);
+        const shakeY = shakeStrength * Math.sin(2 * Math.PI * SHAKE_FREQUENCY_Y * shakeSeconds);
+
+        this.canvas.setCameraTransform(
+            x + shakeX - (this.canvas.width / zoom / 2),
+            y + shakeY - (this.canvas.height / zoom / 2),
+            zoom
+        );
+    }
+}
\ No newline at end of file
@@ -1,18 +1,16 @@
 /**
- * The Canvas class is responsible for managing the HTML Canvas element and anything drawn to it. It incorporates a
- * drawing offset that all drawn entities to be positioned relative to giving the illusion of moving around in the
- * game world.
+ * The Canvas class is responsible for managing the HTML Canvas element and anything drawn to it with the 2D context. It
+ * incorporates a camera transform that all drawn entities are positioned relative to, giving the illusion of moving
+ * around in the game world, and scaled by.
  */
 
+import { iSprite } from '../Interfaces/iSprite';
+import { BaseRenderer, DEFAULT_COLOR } from './BaseRenderer';
 import { Position } from './Utils';
 
-export class Canvas {
+export class Canvas extends BaseRenderer {
     canvasId: string;
 
-    width: number;
-
-    height: number;
-
     canvas: HTMLCanvasElement;
 
     /**
@@ -20,33 +18,18 @@ export class Canvas {
      */
     ctx: CanvasRenderingContext2D;
 
-    drawOffset: Position = new Position(0, 0);
-
     /**
      * Create a canvas of a specific size
      */
     constructor(canvasId: string, width: number, height: number) {
+        super(width, height);
         this.canvasId = canvasId;
-        this.width = width;
-        this.height = height;
-        this.canvas = this.findCanvas();
+        this.canvas = findCanvasElement(this.canvasId);
         this.ctx = this.getCanvasContext();
 
         this.setupCanvas();
     }
 
-    /**
-     * Get the canvas DOM element for the instances canvasId
-     */
-    findCanvas(): HTMLCanvasElement {
-        const canvas = document.getElementById(this.canvasId);
-        if (!(canvas instanceof HTMLCanvasElement)) {
-            throw new Error(`Canvas element ${this.canvasId} not found!`);
-        }
-
-        return canvas;
-    }
-
     getCanvasContext(): CanvasRenderingContext2D {
         const ctx = this.canvas.getContext('2d');
         if(!ctx) {
@@ -58,6 +41,8 @@ export class Canvas {
 
     /**
      * Get the canvas DOM element and make it the proper size. Also ensure it compensates for device pixel scaling.
+     * Resizing the canvas element resets its context, so this can be called again whenever the size or the device pixel
+     * ratio changes.
      */
     setupCanvas() {
         this.canvas.width = this.width * window.devicePixelRatio;
@@ -68,6 +53,15 @@ export class Canvas {
         this.ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
     }
 
+    /**
+     * Change the size of the canvas, e.g. when the browser window is resized.
+     */
+    resize(width: number, height: number) {
+        super.resize(width, height);
+
+        this.setupCanvas();
+    }
+
     /**
      * Erase the entire canvas
      */
@@ -76,20 +70,70 @@ export class Canvas {
     }
 
     /**
-     * Set an offset so that everything drawn to the canvas is drawn relative to the coordinates passed in.
+     * Draw a sprite's frame at the desired world coordinates at the desired size, through the camera transform. Sprites
+     * without an image have nothing to draw.
      */
-    setDrawOffset(x: number, y: number) {
-        this.drawOffset.x = x;
-        this.drawOffset.y = y;
+    drawSprite(sprite: iSprite, x: number, y: number, width: number, height: number) {
+        if(!sprite.image) {
+            return;
+        }
+
+        const screenPosition = this.worldToScreen(x, y);
+
+        const frame = sprite.frame;
+
+        this.ctx.drawImage(
+            sprite.image,
+            frame.x,
+            frame.y,
+            frame.width,
+            frame.height,
+            screenPosition.x,
+            screenPosition.y,
+            width * this.zoom,
+            height * this.zoom
+        );
+    }
+
+    /**
+     * Draw text at the desired screen coordinates. Text is part of the UI, so it ignores the camera transform.
+     */
+    drawText(text: string, x: number, y: number, font: string) {
+        this.ctx.font = font;
+        this.ctx.fillStyle = DEFAULT_COLOR;
+        this.ctx.fillText(text, x, y);
+    }
+
+    /**
+     * Draw a filled rectangle at the desired screen coordinates, in the color given. Like text, it ignores the camera
+     * transform.
+     */
+    drawRect(x: number, y: number, width: number, height: number, color: string = DEFAULT_COLOR) {
+        this.ctx.fillStyle = color;
+        this.ctx.fillRect(x, y, width, height);
     }
 
     /**
-     * Draw an Image at the desired coordinates relative to the drawOffset position at the desired size.
+     * Draw a filled polygon through the desired screen coordinates, in the color given. Like text, it ignores the
+     * camera transform.
      */
-    drawImage(image: HTMLImageElement, x: number, y: number, width: number, height: number) {
-        x -= this.drawOffset.x;
-        y -= this.drawOffset.y;
+    drawPolygon(points: Position[], color: string = DEFAULT_COLOR) {
+        this.ctx.fillStyle = color;
+        this.ctx.beginPath();
+        points.forEach((point: Position) => this.ctx.lineTo(point.x, point.y));
+        this.ctx.closePath();
+        this.ctx.fill();
+    }
+}
 
-        this.ctx.drawImage(image, x, y, width, height);
+/**
+ * Get the canvas DOM element with the given id
+ */
+export function findCanvasElement(canvasId: string): HTMLCanvasElement {
+    const canvas = document.getElementById(canvasId);
+    if (!(canvas instanceof HTMLCanvasElement)) {
+        throw new Error(`Canvas element ${canvasId} not found!`);
     }
+
+    return canvas;
 }
\ No newline at end of file
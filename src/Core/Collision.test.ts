@@ -0,0 +1,127 @@
+/**
+ * Tests for shape based collision detection. Each pair of shape types is checked touching, overlapping and apart, then
+ * whole hitboxes are checked, including the trunk zone of a tree and a hitbox with no shapes at all.
+ */
+
+import { HITBOXES, IMAGES, IMAGE_NAMES } from "../Constants";
+import { getShapesBounds, intersectHitboxes, intersectTwoShapes, Shape, translateShape } from "./Collision";
+import { ImageManager } from "./ImageManager";
+import { Circle, Rect } from "./Utils";
+
+describe('intersectTwoShapes', () => {
+    describe('rect and rect', () => {
+        const rect = new Rect(0, 0, 10, 10);
+
+        it('intersects when the edges touch', () => {
+            expect(intersectTwoShapes(rect, new Rect(10, 0, 20, 10))).toBe(true);
+            expect(intersectTwoShapes(rect, new Rect(0, 10, 10, 20))).toBe(true);
+        });
+
+        it('intersects when they overlap', () => {
+            expect(intersectTwoShapes(rect, new Rect(5, 5, 15, 15))).toBe(true);
+            expect(intersectTwoShapes(rect, new Rect(2, 2, 4, 4))).toBe(true);
+        });
+
+        it('does not intersect when they are apart', () => {
+            expect(intersectTwoShapes(rect, new Rect(11, 0, 20, 10))).toBe(false);
+            expect(intersectTwoShapes(rect, new Rect(0, -10, 10, -1))).toBe(false);
+        });
+    });
+
+    describe('rect and circle', () => {
+        const rect = new Rect(0, 0, 10, 10);
+
+        it('intersects when the circle touches an edge or a corner', () => {
+            expect(intersectTwoShapes(rect, new Circle(15, 5, 5))).toBe(true);
+            expect(intersectTwoShapes(rect, new Circle(13, 14, 5))).toBe(true);
+        });
+
+        it('intersects when they overlap, in either order', () => {
+            expect(intersectTwoShapes(rect, new Circle(12, 5, 5))).toBe(true);
+            expect(intersectTwoShapes(new Circle(12, 5, 5), rect)).toBe(true);
+            expect(intersectTwoShapes(rect, new Circle(5, 5, 1))).toBe(true);
+        });
+
+        it('does not intersect when they are apart, in either order', () => {
+            expect(intersectTwoShapes(rect, new Circle(16, 5, 5))).toBe(false);
+            expect(intersectTwoShapes(new Circle(16, 5, 5), rect)).toBe(false);
+        });
+
+        it('does not intersect when the circle is past a corner but inside the bounding box', () => {
+            expect(intersectTwoShapes(rect, new Circle(14, 14, 5))).toBe(false);
+        });
+    });
+
+    describe('circle and circle', () => {
+        const circle = new Circle(0, 0, 5);
+
+        it('intersects when they touch', () => {
+            expect(intersectTwoShapes(circle, new Circle(8, 0, 3))).toBe(true);
+            expect(intersectTwoShapes(circle, new Circle(6, 8, 5))).toBe(true);
+        });
+
+        it('intersects when they overlap', () => {
+            expect(intersectTwoShapes(circle, new Circle(4, 0, 3))).toBe(true);
+            expect(intersectTwoShapes(circle, new Circle(0, 0, 1))).toBe(true);
+        });
+
+        it('does not intersect when they are apart', () => {
+            expect(intersectTwoShapes(circle, new Circle(9, 0, 3))).toBe(false);
+            expect(intersectTwoShapes(circle, new Circle(7, 7, 4))).toBe(false);
+        });
+    });
+});
+
+describe('intersectHitboxes', () => {
+    const imageManager = new ImageManager(IMAGES, HITBOXES);
+
+    /**
+     * A small hitbox, like the skier's skis, centered on the point given
+     */
+    function probe(x: number, y: number): Shape[] {
+        return [new Rect(x - 1, y - 1, x + 1, y + 1)];
+    }
+
+    function treeHitbox(x: number, y: number): Shape[] {
+        return imageManager.getHitbox(IMAGE_NAMES.TREE).map((shape: Shape) => translateShape(shape, x, y));
+    }
+
+    function treeTrunkHitbox(x: number, y: number): Shape[] {
+        return imageManager.getTrunkHitbox(IMAGE_NAMES.TREE).map((shape: Shape) => translateShape(shape, x, y));
+    }
+
+    it('collides if any shape in one overlaps any shape in the other', () => {
+        const hitbox = [new Rect(0, 0, 10, 10), new Circle(30, 0, 5)];
+
+        expect(intersectHitboxes(hitbox, [new Circle(37, 0, 2)])).toBe(true);
+        expect(intersectHitboxes(hitbox, [new Circle(20, 0, 2)])).toBe(false);
+    });
+
+    it('only collides with the trunk of a tree at its base', () => {
+        const trunkBounds = getShapesBounds(treeTrunkHitbox(100, 100));
+        if(!trunkBounds) {
+            throw new Error('The tree has no trunk');
+        }
+
+        const trunkCenterX = (trunkBounds.left + trunkBounds.right) / 2;
+        const trunkCenterY = (trunkBounds.top + trunkBounds.bottom) / 2;
+        expect(intersectHitboxes(probe(trunkCenterX, trunkCenterY), treeTrunkHitbox(100, 100))).toBe(true);
+        expect(intersectHitboxes(probe(trunkCenterX, trunkCenterY), treeHitbox(100, 100))).toBe(true);
+    });
+
+    it('passes behind the branches of a tree without hitting the trunk', () => {
+        expect(intersectHitboxes(probe(100, 100), treeHitbox(100, 100))).toBe(true);
+        expect(intersectHitboxes(probe(100, 100), treeTrunkHitbox(100, 100))).toBe(false);
+    });
+
+    it('uses the whole hitbox as the trunk of anything without a trunk', () => {
+        expect(imageManager.getTrunkHitbox(IMAGE_NAMES.ROCK1)).toEqual(imageManager.getHitbox(IMAGE_NAMES.ROCK1));
+    });
+
+    it('never collides with an empty hitbox', () => {
+        expect(intersectHitboxes([], treeHitbox(0, 0))).toBe(false);
+        expect(intersectHitboxes(treeHitbox(0, 0), [])).toBe(false);
+        expect(intersectHitboxes([], [])).toBe(false);
+        expect(getShapesBounds([])).toBeNull();
+    });
+});
\ No newline at end of file
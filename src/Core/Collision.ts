@@ -0,0 +1,110 @@
+/**
+ * Shape based collision detection. Hitboxes are made up of one or more rectangles and circles, so they can follow the
+ * outline of a sprite rather than its whole image. Two hitboxes collide if any shape in one overlaps any shape in the
+ * other.
+ */
+
+import { Circle, intersectTwoRects, Rect } from "./Utils";
+
+export type Shape = Rect | Circle;
+
+/**
+ * Return a copy of the shape moved by the given amount.
+ */
+export function translateShape(shape: Shape, x: number, y: number): Shape {
+    if(shape instanceof Circle) {
+        return new Circle(shape.x + x, shape.y + y, shape.radius);
+    }
+
+    return new Rect(shape.left + x, shape.top + y, shape.right + x, shape.bottom + y);
+}
+
+/**
+ * Return a copy of the shape shrunk in by the given amount on every side. A shape never shrinks past its center.
+ */
+export function insetShape(shape: Shape, inset: number): Shape {
+    if(shape instanceof Circle) {
+        return new Circle(shape.x, shape.y, Math.max(0, shape.radius - inset));
+    }
+
+    const centerX = (shape.left + shape.right) / 2;
+    const centerY = (shape.top + shape.bottom) / 2;
+    return new Rect(
+        Math.min(shape.left + inset, centerX),
+        Math.min(shape.top + inset, centerY),
+        Math.max(shape.right - inset, centerX),
+        Math.max(shape.bottom - inset, centerY)
+    );
+}
+
+/**
+ * Return the smallest rectangle that contains the shape.
+ */
+export function getShapeBounds(shape: Shape): Rect {
+    if(shape instanceof Circle) {
+        return new Rect(shape.x - shape.radius, shape.y - shape.radius, shape.x + shape.radius, shape.y + shape.radius);
+    }
+
+    return shape;
+}
+
+/**
+ * Return the smallest rectangle that contains all of the shapes, or null if there aren't any.
+ */
+export function getShapesBounds(shapes: Shape[]): Rect | null {
+    if(!shapes.length) {
+        return null;
+    }
+
+    const bounds = shapes.map(getShapeBounds);
+    return new Rect(
+        Math.min(...bounds.map((rect: Rect) => rect.left)),
+        Math.min(...bounds.map((rect: Rect) => rect.top)),
+        Math.max(...bounds.map((rect: Rect) => rect.right)),
+        Math.max(...bounds.map((rect: Rect) => rect.bottom))
+    );
+}
+
+/**
+ * Determine if there is an intersection between two circles.
+ */
+export function intersectTwoCircles(circle1: Circle, circle2: Circle): boolean {
+    const radii = circle1.radius + circle2.radius;
+    const xDistance = circle1.x - circle2.x;
+    const yDistance = circle1.y - circle2.y;
+
+    return xDistance * xDistance + yDistance * yDistance <= radii * radii;
+}
+
+/**
+ * Determine if there is an intersection between a rectangle and a circle, by finding the point in the rectangle closest
+ * to the center of the circle.
+ */
+export function intersectRectAndCircle(rect: Rect, circle: Circle): boolean {
+    const closestX = Math.max(rect.left, Math.min(circle.x, rect.right));
+    const closestY = Math.max(rect.top, Math.min(circle.y, rect.bottom));
+    const xDistance = circle.x - closestX;
+    const yDistance = circle.y - closestY;
+
+    return xDistance * xDistance + yDistance * yDistance <= circle.radius * circle.radius;
+}
+
+/**
+ * Determine if there is an intersection between any two shapes.
+ */
+export function intersectTwoShapes(shape1: Shape, shape2: Shape): boolean {
+    if(shape1 instanceof Circle) {
+        return shape2 instanceof Circle ? intersectTwoCircles(shape1, shape2) : intersectRectAndCircle(shape2, shape1);
+    }
+
+    return shape2 instanceof Circle ? intersectRectAndCircle(shape1, shape2) : intersectTwoRects(shape1, shape2);
+}
+
+/**
+ * Determine if two hitboxes collide, i.e. any shape in the first overlaps any shape in the second.
+ */
+export function intersectHitboxes(hitbox1: Shape[], hitbox2: Shape[]): boolean {
+    return hitbox1.some((shape1: Shape) => {
+        return hitbox2.some((shape2: Shape) => intersectTwoShapes(shape1, shape2));
+    });
+}
\ No newline at end of file
@@ -0,0 +1,260 @@
+/**
+ * The controls settings screen, drawn over the game. Lists every action with the key it's bound to. The player moves
+ * through the list with up and down and presses jump on an action to rebind it to the next key they press, or any
+ * gamepad button or touch to cancel. Keys that are already bound to another action are rejected, so bindings never
+ * conflict. The sound volumes are listed after the actions and are turned down and up with left and right.
+ */
+
+import { ACTIONS, AUDIO_CHANNELS } from "../Constants";
+import { iRenderer } from "../Interfaces/iRenderer";
+import { AudioManager } from "./AudioManager";
+import { getKeyLabel, KeyBindings, RESERVED_KEYS } from "./Input/KeyBindings";
+import { KeyboardInput } from "./Input/KeyboardInput";
+
+/**
+ * The on screen names of each action, in the order they're listed.
+ */
+const ACTION_LABELS: {[action in ACTIONS]: string} = {
+    [ACTIONS.TURN_LEFT]: 'Turn left',
+    [ACTIONS.TURN_RIGHT]: 'Turn right',
+    [ACTIONS.UP]: 'Up',
+    [ACTIONS.DOWN]: 'Down',
+    [ACTIONS.JUMP]: 'Jump',
+    [ACTIONS.PAUSE]: 'Pause',
+    [ACTIONS.RESET]: 'Reset',
+    [ACTIONS.SAVE_REPLAY]: 'Save replay',
+    [ACTIONS.CONTROLS]: 'Controls',
+    [ACTIONS.MUTE]: 'Mute'
+};
+
+const LISTED_ACTIONS: ACTIONS[] = Object.keys(ACTION_LABELS) as ACTIONS[];
+
+/**
+ * The on screen names of each volume, in the order they're listed after the actions.
+ */
+const VOLUME_LABELS: {[channel in AUDIO_CHANNELS]: string} = {
+    [AUDIO_CHANNELS.MASTER]: 'Master volume',
+    [AUDIO_CHANNELS.EFFECTS]: 'Effects volume',
+    [AUDIO_CHANNELS.MUSIC]: 'Music volume'
+};
+
+const LISTED_CHANNELS: AUDIO_CHANNELS[] = Object.keys(VOLUME_LABELS) as AUDIO_CHANNELS[];
+
+/**
+ * The extra row at the bottom of the list that resets every binding.
+ */
+const RESET_ROW_LABEL: string = 'Reset to defaults';
+
+/**
+ * The layout of the screen, drawn relative to the center of the screen.
+ */
+const SCREEN_OFFSET_X: number = 220;
+const SCREEN_OFFSET_Y: number = 280;
+const LINE_HEIGHT: number = 32;
+const KEY_COLUMN_OFFSET_X: number = 260;
+const TITLE_FONT: string = 'bold 32px monospace';
+const FONT: string = 'bold 22px monospace';
+
+export class ControlsScreen {
+    private readonly canvas: iRenderer;
+
+    private readonly keyBindings: KeyBindings;
+
+    /**
+     * Used to capture the next key pressed when rebinding
+     */
+    private readonly keyboardInput: KeyboardInput;
+
+    private readonly audioManager: AudioManager;
+
+    /**
+     * The row currently selected. The rows are each of the listed actions, then each of the volumes, followed by the
+     * reset row.
+     */
+    private selectedRow: number = 0;
+
+    /**
+     * Is the screen waiting for the player to press a key to bind
+     */
+    private capturing: boolean = false;
+
+    /**
+     * Feedback about the last thing the player did, such as a conflicting key
+     */
+    private message: string = '';
+
+    constructor(canvas: iRenderer, keyBindings: KeyBindings, keyboardInput: KeyboardInput, audioManager: AudioManager) {
+        this.canvas = canvas;
+        this.keyBindings = keyBindings;
+        this.keyboardInput = keyboardInput;
+        this.audioManager = audioManager;
+    }
+
+    isCapturing(): boolean {
+        return this.capturing;
+    }
+
+    /**
+     * Get the on screen name of an action
+     */
+    static getActionLabel(action: ACTIONS): string {
+        return ACTION_LABELS[action];
+    }
+
+    /**
+     * Start the screen fresh each time it's opened.
+     */
+    open() {
+        this.selectedRow = 0;
+        this.message = '';
+    }
+
+    /**
+     * Stop waiting for a key if the screen is closed mid rebind.
+     */
+    close() {
+        this.capturing = false;
+        this.keyboardInput.cancelCapture();
+    }
+
+    /**
+     * Handle the player's actions. Up and down move through the rows, jump activates the selected row and left and
+     * right change the selected volume. While waiting for a key to bind, key presses are captured rather than turned
+     * into actions, so any action must have come from a gamepad or touch and cancels the rebind instead. Otherwise a
+     * player without a keyboard would be stuck waiting.
+     */
+    handleInput(action: ACTIONS) {
+        if(this.capturing) {
+            this.cancelRebind();
+            return;
+        }
+
+        const rowCount = LISTED_ACTIONS.length + LISTED_CHANNELS.length + 1;
+
+        switch(action) {
+            case ACTIONS.UP:
+                this.selectedRow = (this.selectedRow - 1 + rowCount) % rowCount;
+                break;
+            case ACTIONS.DOWN:
+                this.selectedRow = (this.selectedRow + 1) % rowCount;
+                break;
+            case ACTIONS.JUMP:
+                this.activateSelectedRow();
+                break;
+            case ACTIONS.TURN_LEFT:
+                this.changeSelectedVolume(-1);
+                break;
+            case ACTIONS.TURN_RIGHT:
+                this.changeSelectedVolume(1);
+                break;
+        }
+    }
+
+    /**
+     * Get the volume on the selected row, if it's a volume row
+     */
+    getSelectedChannel(): AUDIO_CHANNELS | null {
+        return LISTED_CHANNELS[this.selectedRow - LISTED_ACTIONS.length] ?? null;
+    }
+
+    /**
+     * Turn the selected volume down or up a step.
+     */
+    changeSelectedVolume(direction: number) {
+        const channel = this.getSelectedChannel();
+        if(!channel) {
+            return;
+        }
+
+        this.audioManager.changeVolume(channel, direction);
+        this.message = '';
+    }
+
+    /**
+     * Either reset every binding or start rebinding the selected action. Volumes are changed with left and right
+     * rather than activated.
+     */
+    activateSelectedRow() {
+        if(this.getSelectedChannel()) {
+            return;
+        }
+
+        if(this.selectedRow === LISTED_ACTIONS.length + LISTED_CHANNELS.length) {
+            this.keyBindings.resetToDefaults();
+            this.message = 'Controls reset to defaults';
+            return;
+        }
+
+        const action = LISTED_ACTIONS[this.selectedRow];
+        this.capturing = true;
+        this.message = `Press a key for ${ACTION_LABELS[action]} (Escape or any button to cancel)`;
+        this.keyboardInput.captureNextKey((key: string) => this.rebind(action, key));
+    }
+
+    /**
+     * Stop waiting for a key to bind, leaving the binding as it was.
+     */
+    cancelRebind() {
+        this.close();
+        this.message = 'Cancelled';
+    }
+
+    /**
+     * Bind the action to the key that was pressed, unless it's reserved or already used by another action.
+     */
+    rebind(action: ACTIONS, key: string) {
+        this.capturing = false;
+
+        if(RESERVED_KEYS.includes(key)) {
+            this.message = 'Cancelled';
+            return;
+        }
+
+        const conflict = this.keyBindings.findConflict(action, key);
+        if(conflict) {
+            this.message = `${getKeyLabel(key)} is already used for ${ACTION_LABELS[conflict]}`;
+            return;
+        }
+
+        this.keyBindings.bind(action, key);
+        this.message = `${ACTION_LABELS[action]} is now ${getKeyLabel(key)}`;
+    }
+
+    /**
+     * Draw every action with its key and every volume, marking the selected row, followed by any feedback for the
+     * player.
+     */
+    draw() {
+        const x = (this.canvas.width / 2) - SCREEN_OFFSET_X;
+        const y = (this.canvas.height / 2) - SCREEN_OFFSET_Y;
+
+        this.canvas.drawText('Controls', x, y, TITLE_FONT);
+
+        LISTED_ACTIONS.forEach((action: ACTIONS, index: number) => {
+            const rowY = y + LINE_HEIGHT * (index + 1);
+            this.canvas.drawText(this.getRowPrefix(index) + ACTION_LABELS[action], x, rowY, FONT);
+            this.canvas.drawText(this.keyBindings.getKeyLabel(action), x + KEY_COLUMN_OFFSET_X, rowY, FONT);
+        });
+
+        LISTED_CHANNELS.forEach((channel: AUDIO_CHANNELS, index: number) => {
+            const row = LISTED_ACTIONS.length + index;
+            const rowY = y + LINE_HEIGHT * (row + 1);
+            const volume = `${Math.round(this.audioManager.getVolume(channel) * 100)}%`;
+            this.canvas.drawText(this.getRowPrefix(row) + VOLUME_LABELS[channel], x, rowY, FONT);
+            this.canvas.drawText(volume, x + KEY_COLUMN_OFFSET_X, rowY, FONT);
+        });
+
+        const resetRow = LISTED_ACTIONS.length + LISTED_CHANNELS.length;
+        const resetRowY = y + LINE_HEIGHT * (resetRow + 1);
+        this.canvas.drawText(this.getRowPrefix(resetRow) + RESET_ROW_LABEL, x, resetRowY, FONT);
+
+        const instructions = `Up/down: select, ${this.keyBindings.getKeyLabel(ACTIONS.JUMP)}: rebind, left/right: volume, ` +
+            `${this.keyBindings.getKeyLabel(ACTIONS.CONTROLS)}: close`;
+        this.canvas.drawText(instructions, x, resetRowY + LINE_HEIGHT * 1.5, FONT);
+        this.canvas.drawText(this.message, x, resetRowY + LINE_HEIGHT * 2.5, FONT);
+    }
+
+    private getRowPrefix(row: number): string {
+        return row === this.selectedRow ? '> ' : '  ';
+    }
+}
\ No newline at end of file
@@ -0,0 +1,339 @@
+/**
+ * The course editor, for building handcrafted courses on the canvas. Clicking places the selected obstacle type, dragging
+ * an obstacle moves it, right clicking deletes it and dragging empty space pans around the course. The skier's start,
+ * the rhino's spawn and the finish line are set at the cursor with the keyboard. Courses can be exported as a file,
+ * imported again (or dropped onto the page) and played straight from the editor.
+ */
+
+import { IMAGE_NAMES, OBSTACLE_TYPES } from "../Constants";
+import { iCourse, iCourseObstacle } from "../Interfaces/iCourse";
+import { iObstacleType } from "../Interfaces/iObstacleType";
+import { getObstacleType } from "../Entities/Obstacles/ObstacleTypes";
+import { Canvas } from "./Canvas";
+import { createEmptyCourse, downloadCourse, parseCourse, storePendingCourse } from "./CourseFile";
+import { ImageManager } from "./ImageManager";
+import { Position } from "./Utils";
+
+/**
+ * How far, in pixels, the mouse can move while pressed on empty space and still count as a click rather than a pan.
+ */
+const CLICK_MOVE_TOLERANCE: number = 5;
+
+/**
+ * How thick the finish line is drawn, in pixels.
+ */
+const FINISH_LINE_HEIGHT: number = 4;
+
+/**
+ * The screen coordinates of the editor instructions, drawn in the top left.
+ */
+const HUD_X: number = 30;
+const HUD_Y: number = 40;
+const HUD_LINE_HEIGHT: number = 26;
+const HUD_FONT: string = 'bold 18px monospace';
+
+/**
+ * A mouse press in progress: either dragging an obstacle or, if it started on empty space, panning.
+ */
+interface iDrag {
+    obstacle: iCourseObstacle | null;
+    lastX: number;
+    lastY: number;
+    distance: number;
+}
+
+export class CourseEditor {
+    private readonly canvas: Canvas;
+
+    private readonly imageManager: ImageManager;
+
+    /**
+     * The course being edited
+     */
+    private course: iCourse = createEmptyCourse();
+
+    /**
+     * The index into OBSTACLE_TYPES of the type placed on click
+     */
+    private selectedTypeIndex: number = 0;
+
+    /**
+     * Where the mouse is in the world
+     */
+    private cursor: Position = new Position(0, 0);
+
+    private drag: iDrag | null = null;
+
+    /**
+     * Feedback about the last thing the editor did, such as a course failing to import
+     */
+    private message: string = '';
+
+    constructor(canvas: Canvas, imageManager: ImageManager) {
+        this.canvas = canvas;
+        this.imageManager = imageManager;
+        this.canvas.setCameraTransform(-canvas.width / 2, -canvas.height / 2, 1);
+    }
+
+    /**
+     * Listen to the mouse on the canvas, the keyboard and files dropped onto the page.
+     */
+    setupInputHandling() {
+        const element = this.canvas.canvas;
+        element.addEventListener('mousedown', this.handleMouseDown.bind(this));
+        element.addEventListener('mousemove', this.handleMouseMove.bind(this));
+        element.addEventListener('mouseup', this.handleMouseUp.bind(this));
+        element.addEventListener('contextmenu', this.handleContextMenu.bind(this));
+        document.addEventListener('keydown', this.handleKeyDown.bind(this));
+
+        document.addEventListener('dragover', (event: DragEvent) => {
+            event.preventDefault();
+        });
+        document.addEventListener('drop', async (event: DragEvent) => {
+            event.preventDefault();
+
+            const file = event.dataTransfer?.files[0];
+            if(file) {
+                this.importCourse(await file.text());
+            }
+        });
+    }
+
+    getCourse(): iCourse {
+        return this.course;
+    }
+
+    getSelectedType(): iObstacleType {
+        return OBSTACLE_TYPES[this.selectedTypeIndex];
+    }
+
+    /**
+     * Start pressing: on an obstacle to drag it, or on empty space to pan or place an obstacle.
+     */
+    handleMouseDown(event: MouseEvent) {
+        if(event.button !== 0) {
+            return;
+        }
+
+        this.drag = {
+            obstacle: this.findObstacleAt(this.toWorld(event)),
+            lastX: event.offsetX,
+            lastY: event.offsetY,
+            distance: 0
+        };
+    }
+
+    /**
+     * Move the dragged obstacle, or pan, by however far the mouse moved.
+     */
+    handleMouseMove(event: MouseEvent) {
+        this.cursor = this.toWorld(event);
+
+        if(this.drag) {
+            const xDistance = event.offsetX - this.drag.lastX;
+            const yDistance = event.offsetY - this.drag.lastY;
+            this.drag.lastX = event.offsetX;
+            this.drag.lastY = event.offsetY;
+            this.drag.distance += Math.abs(xDistance) + Math.abs(yDistance);
+
+            if(this.drag.obstacle) {
+                this.drag.obstacle.x += xDistance;
+                this.drag.obstacle.y += yDistance;
+            }
+            else {
+                const { drawOffset } = this.canvas;
+                this.canvas.setCameraTransform(drawOffset.x - xDistance, drawOffset.y - yDistance, 1);
+                this.cursor = this.toWorld(event);
+            }
+        }
+
+        this.draw();
+    }
+
+    /**
+     * Finish pressing. A press on empty space that barely moved is a click, which places the selected obstacle type.
+     */
+    handleMouseUp(event: MouseEvent) {
+        if(this.drag && !this.drag.obstacle && this.drag.distance <= CLICK_MOVE_TOLERANCE) {
+            this.placeObstacle(this.toWorld(event));
+        }
+
+        this.drag = null;
+        this.draw();
+    }
+
+    /**
+     * Right clicking an obstacle deletes it.
+     */
+    handleContextMenu(event: MouseEvent) {
+        event.preventDefault();
+
+        this.deleteObstacleAt(this.toWorld(event));
+        this.draw();
+    }
+
+    /**
+     * Handle the editor's keyboard shortcuts.
+     */
+    handleKeyDown(event: KeyboardEvent) {
+        const key = event.key.toLowerCase();
+        const typeIndex = parseInt(key, 10) - 1;
+
+        if(typeIndex >= 0 && typeIndex < OBSTACLE_TYPES.length) {
+            this.selectedTypeIndex = typeIndex;
+        }
+
+        switch(key) {
+            case 's':
+                this.course.start = { x: this.cursor.x, y: this.cursor.y };
+                break;
+            case 'r':
+                this.course.rhinoSpawn = { x: this.cursor.x, y: this.cursor.y };
+                break;
+            case 'f':
+                this.course.finishLineY = this.cursor.y;
+                break;
+            case 'delete':
+            case 'backspace':
+                this.deleteObstacleAt(this.cursor);
+                break;
+            case 'e':
+                downloadCourse(this.course);
+                break;
+            case 'o':
+                this.openCourseFile();
+                break;
+            case 'p':
+                this.playCourse();
+                break;
+        }
+
+        this.draw();
+    }
+
+    /**
+     * Place an obstacle of the selected type.
+     */
+    placeObstacle(position: Position) {
+        this.course.obstacles.push({ type: this.getSelectedType().name, x: position.x, y: position.y });
+    }
+
+    /**
+     * Delete the obstacle at the position, if there is one.
+     */
+    deleteObstacleAt(position: Position) {
+        const obstacle = this.findObstacleAt(position);
+        if(obstacle) {
+            this.course.obstacles.splice(this.course.obstacles.indexOf(obstacle), 1);
+        }
+    }
+
+    /**
+     * Find the obstacle whose sprite is under the position. Later obstacles are drawn on top, so they're found first.
+     */
+    findObstacleAt(position: Position): iCourseObstacle | null {
+        for(let i = this.course.obstacles.length - 1; i >= 0; i--) {
+            const obstacle = this.course.obstacles[i];
+            const spriteSize = this.imageManager.getSpriteSize(getObstacleType(obstacle.type).image);
+            if(!spriteSize) {
+                continue;
+            }
+
+            if(Math.abs(position.x - obstacle.x) <= spriteSize.width / 2 &&
+                Math.abs(position.y - obstacle.y) <= spriteSize.height / 2) {
+                return obstacle;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Replace the course being edited with one read from a file.
+     */
+    importCourse(json: string) {
+        try {
+            this.course = parseCourse(json);
+            this.message = `Imported ${this.course.name}`;
+        } catch(error) {
+            console.error(error);
+            this.message = 'That file isn\'t a valid course';
+        }
+
+        this.draw();
+    }
+
+    /**
+     * Ask the player to pick a course file to import.
+     */
+    openCourseFile() {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json,application/json';
+        input.addEventListener('change', async () => {
+            const file = input.files?.[0];
+            if(file) {
+                this.importCourse(await file.text());
+            }
+        });
+        input.click();
+    }
+
+    /**
+     * Leave the editor and play the course, handing it over to the game through session storage.
+     */
+    playCourse() {
+        storePendingCourse(this.course);
+        location.href = location.pathname;
+    }
+
+    /**
+     * Convert the mouse position on the canvas to a position in the world.
+     */
+    toWorld(event: MouseEvent): Position {
+        const { drawOffset } = this.canvas;
+        return new Position(event.offsetX + drawOffset.x, event.offsetY + drawOffset.y);
+    }
+
+    /**
+     * Draw the course: every obstacle, the skier at the start, the rhino at its spawn and the finish line, along with
+     * the editor instructions.
+     */
+    draw() {
+        this.canvas.clearCanvas();
+
+        this.course.obstacles.forEach((obstacle: iCourseObstacle) => {
+            this.drawSprite(getObstacleType(obstacle.type).image, obstacle.x, obstacle.y);
+        });
+        this.drawSprite(IMAGE_NAMES.SKIER_DOWN, this.course.start.x, this.course.start.y);
+        this.drawSprite(IMAGE_NAMES.RHINO, this.course.rhinoSpawn.x, this.course.rhinoSpawn.y);
+
+        const finishLineScreenY = this.course.finishLineY - this.canvas.drawOffset.y;
+        this.canvas.drawRect(0, finishLineScreenY, this.canvas.width, FINISH_LINE_HEIGHT);
+
+        const lines: string[] = [
+            `Course editor: ${this.course.name} (${this.course.obstacles.length} obstacles)`,
+            `Placing ${this.getSelectedType().name}, 1-${OBSTACLE_TYPES.length} to change`,
+            'Click: place, drag: move or pan, right click: delete',
+            'S: start, R: rhino, F: finish line at the cursor',
+            'E: export, O: import, P: play',
+            this.message
+        ];
+        lines.forEach((line: string, index: number) => {
+            this.canvas.drawText(line, HUD_X, HUD_Y + HUD_LINE_HEIGHT * index, HUD_FONT);
+        });
+        this.canvas.flush();
+    }
+
+    /**
+     * Draw a sprite centered on a world position.
+     */
+    drawSprite(imageName: IMAGE_NAMES, x: number, y: number) {
+        const sprite = this.imageManager.getSprite(imageName);
+        if(!sprite) {
+            return;
+        }
+
+        this.canvas.drawSprite(sprite, x - sprite.width / 2, y - sprite.height / 2, sprite.width, sprite.height);
+    }
+}
\ No newline at end of file
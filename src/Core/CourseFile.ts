@@ -0,0 +1,146 @@
+/**
+ * Reading and writing course files. Courses are plain JSON, made in the course editor. A course dropped onto the page
+ * is handed over to the next page load through session storage, the same way replays are.
+ */
+
+import { OBSTACLE_NAMES } from "../Constants";
+import { iCourse, iCourseObstacle } from "../Interfaces/iCourse";
+
+/**
+ * Bumped whenever the course format changes, so old courses can be rejected rather than loaded incorrectly.
+ */
+export const COURSE_VERSION: number = 1;
+
+/**
+ * The session storage key a course waiting to be played is stored under.
+ */
+const PENDING_COURSE_KEY: string = 'cerosSkiPendingCourse';
+
+/**
+ * Where the rhino spawns and how far away the finish line is on a new course, matching a generated world.
+ */
+const DEFAULT_RHINO_SPAWN: { x: number, y: number } = { x: -500, y: -2000 };
+const DEFAULT_FINISH_LINE_Y: number = 5000;
+
+/**
+ * Create a course with nothing on it, to start editing from.
+ */
+export function createEmptyCourse(): iCourse {
+    return {
+        version: COURSE_VERSION,
+        name: 'Untitled course',
+        start: { x: 0, y: 0 },
+        rhinoSpawn: { ...DEFAULT_RHINO_SPAWN },
+        finishLineY: DEFAULT_FINISH_LINE_Y,
+        obstacles: []
+    };
+}
+
+/**
+ * Parse and validate a course file, throwing an error if it isn't a course this version of the game can load.
+ */
+export function parseCourse(json: string): iCourse {
+    return validateCourse(JSON.parse(json));
+}
+
+/**
+ * Validate an already parsed course, such as one embedded in a replay. Throws an error if it isn't a valid course. The
+ * course comes from a file the player gave us, so nothing about it is trusted until it's been checked, and the course
+ * returned is built only from the fields that passed.
+ */
+export function validateCourse(course: unknown): iCourse {
+    if(!isRecord(course) || course.version !== COURSE_VERSION) {
+        throw new Error(`Unsupported course version, expected version ${COURSE_VERSION}`);
+    }
+
+    const { name, start, rhinoSpawn, finishLineY, obstacles } = course;
+    if(typeof name !== 'string') {
+        throw new Error('Course is missing the name field');
+    }
+
+    if(!isPosition(start)) {
+        throw new Error('Course is missing the start field');
+    }
+
+    if(!isPosition(rhinoSpawn)) {
+        throw new Error('Course is missing the rhinoSpawn field');
+    }
+
+    if(typeof finishLineY !== 'number') {
+        throw new Error('Course is missing the finishLineY field');
+    }
+
+    if(!Array.isArray(obstacles) || !obstacles.every(isCourseObstacle)) {
+        throw new Error('Course obstacles are invalid');
+    }
+
+    return {
+        version: COURSE_VERSION,
+        name,
+        start: { x: start.x, y: start.y },
+        rhinoSpawn: { x: rhinoSpawn.x, y: rhinoSpawn.y },
+        finishLineY,
+        obstacles: obstacles.map((obstacle: iCourseObstacle) => ({ type: obstacle.type, x: obstacle.x, y: obstacle.y }))
+    };
+}
+
+/**
+ * Is the value an object whose fields can be checked
+ */
+function isRecord(value: unknown): value is {[key: string]: unknown} {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPosition(position: unknown): position is { x: number, y: number } {
+    return isRecord(position) && typeof position.x === 'number' && typeof position.y === 'number';
+}
+
+function isCourseObstacle(obstacle: unknown): obstacle is iCourseObstacle {
+    if(!isRecord(obstacle)) {
+        return false;
+    }
+
+    const obstacleNames: string[] = Object.values(OBSTACLE_NAMES);
+    const type = obstacle.type;
+    return isPosition(obstacle) && typeof type === 'string' && obstacleNames.includes(type);
+}
+
+/**
+ * Save a course as a JSON file through the browser's download mechanism.
+ */
+export function downloadCourse(course: iCourse) {
+    const blob = new Blob([JSON.stringify(course, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ceros-ski-course-${course.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Store a course to be played once the page reloads.
+ */
+export function storePendingCourse(course: iCourse) {
+    sessionStorage.setItem(PENDING_COURSE_KEY, JSON.stringify(course));
+}
+
+/**
+ * Return the course waiting to be played, if there is one, and clear it so that reloading goes back to a normal game.
+ */
+export function takePendingCourse(): iCourse | null {
+    const json = sessionStorage.getItem(PENDING_COURSE_KEY);
+    sessionStorage.removeItem(PENDING_COURSE_KEY);
+    if(!json) {
+        return null;
+    }
+
+    try {
+        return parseCourse(json);
+    } catch(error) {
+        console.error(error);
+        return null;
+    }
+}
\ No newline at end of file
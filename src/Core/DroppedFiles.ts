@@ -0,0 +1,36 @@
+/**
+ * Allows replay and course files to be dropped onto the page. A valid file is handed over to the next page load through
+ * session storage and the page is reloaded to play it: a replay is played back and a course is played on.
+ */
+
+import { parseCourse, storePendingCourse } from "./CourseFile";
+import { parseReplay, storePendingReplay } from "./ReplayFile";
+
+export function listenForDroppedFiles() {
+    document.addEventListener('dragover', (event: DragEvent) => {
+        event.preventDefault();
+    });
+
+    document.addEventListener('drop', async (event: DragEvent) => {
+        event.preventDefault();
+
+        const file = event.dataTransfer?.files[0];
+        if(!file) {
+            return;
+        }
+
+        const json = await file.text();
+        try {
+            storePendingReplay(parseReplay(json));
+        } catch(replayError) {
+            try {
+                storePendingCourse(parseCourse(json));
+            } catch(courseError) {
+                console.error(replayError, courseError);
+                return;
+            }
+        }
+
+        location.reload();
+    });
+}
\ No newline at end of file
@@ -1,20 +1,47 @@
 /**
  * The main game class. This initializes the game as well as runs the game/render loop and initial handling of input.
+ * The world is simulated in fixed steps, decoupled from how often the browser renders, so the game plays the same on
+ * every display. The canvas is passed in, so the game can also be simulated headless against a NullCanvas. The world
+ * is either generated from a seed or loaded from a handcrafted course. As well as the original endless mode, with the
+ * rhino giving chase, the game can be played as a slalom race.
  */
 
 import {
-    GAME_CANVAS,
-    GAME_WIDTH,
-    GAME_HEIGHT,
+    HITBOXES,
     IMAGES,
-    KEYS,
-    OBSTACLE_FREQUENCY_INCREASE_THRESHOLD
+    ACTIONS,
+    GAME_MODES,
+    MAX_FRAME_TIME_MS,
+    OBSTACLE_FREQUENCY_INCREASE_THRESHOLD,
+    RENDER_LAYERS,
+    SIMULATION_STEP_MS,
+    SOUND_NAMES,
+    SOUNDS
 } from "../Constants";
-import { Canvas } from './Canvas';
+import { iRenderer } from "../Interfaces/iRenderer";
+import { iCourse } from "../Interfaces/iCourse";
+import { iHighScore } from "../Interfaces/iHighScore";
+import { iRaceSplit } from "../Interfaces/iRaceSplit";
+import { AudioManager } from "./AudioManager";
+import { Camera } from "./Camera";
+import { ControlsScreen } from "./ControlsScreen";
+import { HighScoreManager, MAX_HIGH_SCORES } from "./HighScoreManager";
 import { ImageManager } from "./ImageManager";
+import { GamepadInput } from "./Input/GamepadInput";
+import { InputManager } from "./Input/InputManager";
+import { KeyBindings } from "./Input/KeyBindings";
+import { KeyboardInput } from "./Input/KeyboardInput";
+import { ParticleSystem } from "./Particles/ParticleSystem";
+import { TouchInput } from "./Input/TouchInput";
+import { chooseSeed, Random } from "./Random";
+import { RenderQueue } from "./RenderQueue";
+import { downloadReplay } from "./ReplayFile";
+import { ReplayRecorder } from "./ReplayRecorder";
 import { Position, Rect } from './Utils';
+import { GateManager } from "../Entities/Gates/GateManager";
 import { ObstacleManager } from "../Entities/Obstacles/ObstacleManager";
 import { Rhino } from "../Entities/Rhino";
+import { RhinoDirector } from "../Entities/RhinoDirector";
 import { Skier} from "../Entities/Skier";
 
 /**
@@ -22,7 +49,9 @@ import { Skier} from "../Entities/Skier";
  */
 enum STATES {
     STATE_PLAYING = 'playing',
-    STATE_PAUSED = 'paused'
+    STATE_PAUSED = 'paused',
+    STATE_GAME_OVER = 'gameOver',
+    STATE_CONTROLS = 'controls'
 };
 
 /**
@@ -31,69 +60,290 @@ enum STATES {
 const GAME_METADATA_X: number = 30;
 const RESET_TEXT_Y: number = 70;
 const PAUSE_TEXT_Y: number = 100;
-const SCORE_TEXT_Y: number = 130;
+const SAVE_REPLAY_TEXT_Y: number = 130;
+const CONTROLS_TEXT_Y: number = 160;
+const MUTE_TEXT_Y: number = 190;
+const SCORE_TEXT_Y: number = 220;
+const SEED_TEXT_Y: number = 250;
+const GAME_METADATA_FONT: string = 'bold 24px monospace';
+
+/**
+ * The layout of the results screen shown when the game is over. It's drawn relative to the center of the screen.
+ */
+const RESULTS_OFFSET_X: number = 160;
+const RESULTS_OFFSET_Y: number = 80;
+const RESULTS_LINE_HEIGHT: number = 40;
+const RESULTS_TITLE_FONT: string = 'bold 40px monospace';
+const RESULTS_FONT: string = 'bold 24px monospace';
+
+/**
+ * The layout of the high score table, shown under the game metadata on the pause and game over screens.
+ */
+const HIGH_SCORES_Y: number = 310;
+const HIGH_SCORES_LINE_HEIGHT: number = 26;
+const HIGH_SCORES_TITLE_FONT: string = 'bold 24px monospace';
+const HIGH_SCORES_FONT: string = '18px monospace';
+
+/**
+ * The layout of the loading screen shown while the images load: a line of text above a bar that fills up as they do.
+ * It's drawn relative to the center of the screen.
+ */
+const LOADING_BAR_WIDTH: number = 300;
+const LOADING_BAR_HEIGHT: number = 12;
+const LOADING_BAR_BACKGROUND_COLOR: string = '#dddddd';
+const LOADING_TEXT_OFFSET_Y: number = 16;
+const LOADING_FONT: string = 'bold 24px monospace';
+
+/**
+ * Initials for the high score table are entered arcade style, one letter at a time, so they can be entered with any
+ * input device. They start out as this.
+ */
+const DEFAULT_INITIALS: string = 'AAA';
+const INITIALS_ALPHABET: string = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * The number of world units that make up a meter, used to show how far the skier travelled.
+ */
+const WORLD_UNITS_PER_METER: number = 20;
+
+/**
+ * How thick the finish line of a course is drawn, in pixels.
+ */
+const FINISH_LINE_HEIGHT: number = 4;
+
+/**
+ * The layout of the split times listed under the results of a slalom race.
+ */
+const SPLITS_LINE_HEIGHT: number = 22;
+const SPLITS_FONT: string = '18px monospace';
+
+/**
+ * How far the screen shakes, in world units, and for how long when the skier crashes.
+ */
+const CRASH_SHAKE_STRENGTH: number = 10;
+const CRASH_SHAKE_DURATION_MS: number = 400;
 
 export class Game {
     /**
      * The canvas the game will be displayed on
      */
-    private canvas!: Canvas;
+    private canvas!: iRenderer;
 
     /**
      * What state the game is currently in.
      */
     private state: STATES = STATES.STATE_PLAYING;
 
+    /**
+     * The state to go back to when the controls screen is closed.
+     */
+    private stateBeforeControls: STATES = STATES.STATE_PLAYING;
+
     /**
      * The current score of the player.
      */
     private currentScore: number = 0;
 
     /**
-     * Coordinates denoting the active rectangular space in the game world
-     * */
-    private gameWindow!: Rect;
+     * Follows the skier and owns the game window, the active rectangular space in the game world
+     */
+    private camera!: Camera;
+
+    /**
+     * Current game time. This is simulation time, so it only advances in fixed steps while the game is playing.
+     */
+    private gameTime: number = 0;
+
+    /**
+     * The number of simulation steps that have been run. Inputs are recorded against this so they can be replayed.
+     */
+    private currentStep: number = 0;
+
+    /**
+     * How the game is being played
+     */
+    private mode: GAME_MODES = GAME_MODES.ENDLESS;
+
+    /**
+     * The gates of the slalom race, or null if the game isn't a race
+     */
+    private gateManager: GateManager | null = null;
+
+    /**
+     * The handcrafted course being played, or null if the world is generated from the seed.
+     */
+    private course: iCourse | null = null;
+
+    /**
+     * Did the skier make it across the finish line of the course
+     */
+    private courseFinished: boolean = false;
+
+    /**
+     * The game time the skier crossed the finish line at
+     */
+    private finishTime: number = 0;
 
     /**
-     * Current game time
+     * Real time that has passed but hasn't been simulated yet. Consumed in fixed size steps.
      */
-    private gameTime: number = Date.now();
+    private accumulatedTime: number = 0;
+
+    /**
+     * Timestamp of the previous rendered frame, or null if the loop has just (re)started.
+     */
+    private lastFrameTime: number | null = null;
+
+    /**
+     * The pending animation frame request, kept so the loop is never running twice at once.
+     */
+    private frameRequestId: number | null = null;
 
     private imageManager!: ImageManager;
 
+    private audioManager!: AudioManager;
+
+    /**
+     * The seeded random source the game world is generated from
+     */
+    private random!: Random;
+
     private obstacleManager!: ObstacleManager;
 
+    /**
+     * The visual effects the skier and rhino emit, like snow spray and ski trails
+     */
+    private particleSystem!: ParticleSystem;
+
+    /**
+     * Everything drawn in a frame is submitted here, so it's drawn in the right order
+     */
+    private renderQueue: RenderQueue = new RenderQueue();
+
     /**
      * The skier player
      */
     private skier!: Skier;
 
     /**
-     * The enemy that chases the skier
+     * Decides when the enemy that chases the skier turns up and when it gives up
+     */
+    private rhinoDirector!: RhinoDirector;
+
+    /**
+     * Records the player's inputs so the run can be saved as a replay
+     */
+    private replayRecorder!: ReplayRecorder;
+
+    /**
+     * Loads and saves the high score table
+     */
+    private highScoreManager: HighScoreManager = new HighScoreManager();
+
+    /**
+     * Is the player entering their initials for a new high score
+     */
+    private enteringInitials: boolean = false;
+
+    /**
+     * The initials entered so far for a new high score
+     */
+    private initials: string = DEFAULT_INITIALS;
+
+    /**
+     * The index of the letter of the initials currently being changed
      */
-    private rhino!: Rhino;
+    private initialsCursor: number = 0;
 
     /**
-     * Initialize the game and setup any input handling needed.
+     * The keys the player has bound to each action
      */
-    constructor() {
-        this.init();
-        this.setupInputHandling();
+    private keyBindings: KeyBindings = new KeyBindings();
+
+    /**
+     * The screen for rebinding keys. Only created once input handling is setup in the browser.
+     */
+    private controlsScreen: ControlsScreen | null = null;
+
+    /**
+     * Initialize the game. The size of the canvas is the viewport the game is laid out against and the same seed always
+     * generates the same world. If a course is given, it's played instead of a generated world.
+     */
+    constructor(canvas: iRenderer, seed: number, course: iCourse | null = null, mode: GAME_MODES = GAME_MODES.ENDLESS) {
+        this.canvas = canvas;
+        this.imageManager = new ImageManager(IMAGES, HITBOXES);
+        this.audioManager = new AudioManager(SOUNDS);
+        this.init(seed, course, mode);
     }
 
     /**
-     * Create all necessary game objects and initialize them as needed.
+     * Create all necessary game objects and initialize them as needed. Can be called again to rebuild the world from a
+     * seed, or a course, without reloading any assets. A slalom race has no rhino and, unless it's on a course, no
+     * obstacles either.
      */
-    init() {
-        this.canvas = new Canvas(GAME_CANVAS, GAME_WIDTH, GAME_HEIGHT);
-        this.imageManager = new ImageManager();
-        this.obstacleManager = new ObstacleManager(this.imageManager, this.canvas);
+    init(seed: number, course: iCourse | null = null, mode: GAME_MODES = GAME_MODES.ENDLESS) {
+        this.state = STATES.STATE_PLAYING;
+        this.mode = mode;
+        this.course = course;
+        this.courseFinished = false;
+        this.finishTime = 0;
+        this.enteringInitials = false;
+        this.currentScore = 0;
+        this.gameTime = 0;
+        this.currentStep = 0;
+        this.accumulatedTime = 0;
+
+        this.random = new Random(seed);
+        this.replayRecorder = new ReplayRecorder(seed, this.canvas.width, this.canvas.height, course, mode);
+        this.obstacleManager = new ObstacleManager(this.imageManager, this.canvas, this.random);
+        this.particleSystem = new ParticleSystem(this.canvas, seed);
+
+        const start = course ? course.start : { x: 0, y: 0 };
+        this.skier = new Skier(start.x, start.y, this.imageManager, this.audioManager, this.obstacleManager, this.canvas);
+
+        const rhino = new Rhino(start.x, start.y, this.imageManager, this.audioManager, this.obstacleManager, this.canvas);
+        const courseSpawn = course ? new Position(course.rhinoSpawn.x, course.rhinoSpawn.y) : null;
+        this.rhinoDirector = new RhinoDirector(rhino, this.canvas, courseSpawn);
+
+        this.skier.particleSystem = this.particleSystem;
+        rhino.particleSystem = this.particleSystem;
+
+        this.camera = new Camera(this.canvas);
+        this.camera.reset(this.skier.getPosition());
+        this.audioManager.setListenerArea(this.camera.getGameWindow());
+        if(course) {
+            this.obstacleManager.loadCourse(course);
+        } else if(this.isEndlessRun()) {
+            this.obstacleManager.placeInitialObstacles();
+        }
 
-        this.skier = new Skier(0, 0, this.imageManager, this.obstacleManager, this.canvas);
-        this.rhino = new Rhino(-500, -2000, this.imageManager, this.canvas);
+        this.gateManager = mode === GAME_MODES.SLALOM ?
+            new GateManager(this.imageManager, this.canvas, this.random) :
+            null;
+    }
 
-        this.calculateGameWindow();
-        this.obstacleManager.placeInitialObstacles();
+    getCurrentScore(): number {
+        return this.currentScore;
+    }
+
+    getGameTime(): number {
+        return this.gameTime;
+    }
+
+    getCurrentStep(): number {
+        return this.currentStep;
+    }
+
+    getSeed(): number {
+        return this.random.getSeed();
+    }
+
+    getSkierPosition(): Position {
+        return this.skier.getPosition();
+    }
+
+    isSkierDead(): boolean {
+        return this.skier.isDead();
     }
 
     /**
@@ -110,6 +360,59 @@ export class Game {
         return this.state === STATES.STATE_PAUSED;
     }
 
+    /**
+     * Is the game over because the skier died
+     */
+    isGameOver(): boolean {
+        return this.state === STATES.STATE_GAME_OVER;
+    }
+
+    getMode(): GAME_MODES {
+        return this.mode;
+    }
+
+    /**
+     * Is this the original game: endless mode in a world generated from the seed
+     */
+    isEndlessRun(): boolean {
+        return this.mode === GAME_MODES.ENDLESS && !this.course;
+    }
+
+    /**
+     * Can a rhino come after the skier. It only does in endless mode.
+     */
+    hasRhino(): boolean {
+        return this.mode === GAME_MODES.ENDLESS;
+    }
+
+    /**
+     * The handcrafted course being played, if any
+     */
+    getCourse(): iCourse | null {
+        return this.course;
+    }
+
+    /**
+     * Did the skier finish the course they're playing
+     */
+    isCourseFinished(): boolean {
+        return this.courseFinished;
+    }
+
+    /**
+     * Is the controls screen open
+     */
+    isShowingControls(): boolean {
+        return this.state === STATES.STATE_CONTROLS;
+    }
+
+    /**
+     * How far down the slope the skier has travelled, in meters
+     */
+    getDistance(): number {
+        return Math.max(0, Math.floor(this.skier.getPosition().y / WORLD_UNITS_PER_METER));
+    }
+
     /**
      * If the game is currently playing then put it in the paused state. And if it is currently paused then put it in the playing state.
      */
@@ -123,32 +426,154 @@ export class Game {
     }
 
     /**
-     * Reset the game
+     * Open the controls screen over the game, or close it and go back to whatever state the game was in before. The
+     * world doesn't move while the controls are open. The loop is restarted in case the game was paused.
+     */
+    toggleControls() {
+        if(!this.controlsScreen) {
+            return;
+        }
+
+        if(this.isShowingControls()) {
+            this.controlsScreen.close();
+            this.state = this.stateBeforeControls;
+        } else {
+            this.stateBeforeControls = this.state;
+            this.state = STATES.STATE_CONTROLS;
+            this.controlsScreen.open();
+        }
+
+        this.run();
+    }
+
+    /**
+     * Mute or unmute the game's sound. This works in any state, including while paused.
+     */
+    toggleMute() {
+        this.audioManager.toggleMute();
+    }
+
+    /**
+     * Hold back sound effects, or let them play again, e.g. so skipping through a replay doesn't play every sound at
+     * once.
+     */
+    silenceSoundEffects(silenced: boolean) {
+        this.audioManager.silenceEffects(silenced);
+    }
+
+    /**
+     * Reset the game by rebuilding the world in place for a new run. Loaded assets are kept, so nothing is fetched
+     * again. A course is restarted from the beginning. The loop is restarted in case the game was paused.
      */
     reset() {
-        location.reload();
+        this.init(chooseSeed(location.search), this.course, this.mode);
+        this.run();
+    }
+
+    /**
+     * End the game. The world keeps running behind the results screen so the rhino can finish its meal. If the score
+     * made it into the high score table, ask the player for their initials. Only endless runs in a generated world go in
+     * the high score table, as that's what it ranks.
+     */
+    gameOver() {
+        this.state = STATES.STATE_GAME_OVER;
+        this.enteringInitials = this.isEndlessRun() && this.highScoreManager.qualifies(this.currentScore);
+        this.initials = DEFAULT_INITIALS;
+        this.initialsCursor = 0;
+    }
+
+    /**
+     * Handle an action while the player is entering their initials. Up and down change the current letter, left and
+     * right move between letters and jumping saves the high score.
+     */
+    handleInitialsInput(action: ACTIONS) {
+        switch(action) {
+            case ACTIONS.UP:
+                this.changeInitialsLetter(1);
+                break;
+            case ACTIONS.DOWN:
+                this.changeInitialsLetter(-1);
+                break;
+            case ACTIONS.TURN_LEFT:
+                this.initialsCursor = Math.max(0, this.initialsCursor - 1);
+                break;
+            case ACTIONS.TURN_RIGHT:
+                this.initialsCursor = Math.min(this.initials.length - 1, this.initialsCursor + 1);
+                break;
+            case ACTIONS.JUMP:
+                this.submitHighScore();
+                break;
+        }
     }
 
     /**
-     * Setup listeners for any input events we might need.
+     * Step the letter under the cursor forwards or backwards through the alphabet, wrapping around at either end.
+     */
+    changeInitialsLetter(direction: number) {
+        const letterIndex = INITIALS_ALPHABET.indexOf(this.initials[this.initialsCursor]);
+        const newIndex = (letterIndex + direction + INITIALS_ALPHABET.length) % INITIALS_ALPHABET.length;
+
+        this.initials = this.initials.slice(0, this.initialsCursor) + INITIALS_ALPHABET[newIndex] +
+            this.initials.slice(this.initialsCursor + 1);
+    }
+
+    /**
+     * Save the finished run to the high score table.
+     */
+    submitHighScore() {
+        this.enteringInitials = false;
+        this.highScoreManager.submitScore({
+            initials: this.initials,
+            score: this.currentScore,
+            distance: this.getDistance(),
+            seed: this.getSeed(),
+            date: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Save everything recorded so far as a replay file
+     */
+    saveReplay() {
+        downloadReplay(this.replayRecorder.getReplay(this.currentStep));
+    }
+
+    /**
+     * Setup the input sources the game can be played with: keyboard, gamepad and touch. Only done when running in the
+     * browser.
      */
     setupInputHandling() {
-        document.addEventListener('keydown', this.handleKeyDown.bind(this));
+        const keyboardInput = new KeyboardInput(this.keyBindings);
+        this.controlsScreen = new ControlsScreen(this.canvas, this.keyBindings, keyboardInput, this.audioManager);
+
+        const inputManager = new InputManager(this.handleAction.bind(this));
+        inputManager.addSource(keyboardInput);
+        inputManager.addSource(new GamepadInput());
+        inputManager.addSource(new TouchInput());
     }
 
     /**
-     * Handle keyboard input for game controls.
+     * Handle the player's actions for game controls.
      */
-    handleInput(inputKey: string) {
+    handleInput(action: ACTIONS) {
         let handled: boolean = true;
 
-        switch(inputKey) {
-            case KEYS.PAUSE:
+        switch(action) {
+            case ACTIONS.PAUSE:
                 this.pauseOrResume();
                 break;
-            case KEYS.RESET:
+            case ACTIONS.RESET:
                 this.reset();
                 break;
+            case ACTIONS.SAVE_REPLAY:
+                this.saveReplay();
+                break;
+            case ACTIONS.CONTROLS:
+                this.toggleControls();
+                break;
+            case ACTIONS.MUTE:
+                this.toggleMute();
+                break;
             default:
                 handled = false;
         }
@@ -158,34 +583,127 @@ export class Game {
 
     /**
      * Load any assets we need for the game to run. Return a promise so that we can wait on something until all assets
-     * are loaded before running the game.
+     * are loaded before running the game. A loading screen shows how far along the images are, and the music starts
+     * once it's loaded.
      */
     async load(): Promise<void> {
-        await this.imageManager.loadImages(IMAGES);
+        await Promise.all([
+            this.imageManager.loadImages((progress: number) => this.drawLoadingScreen(progress)),
+            this.audioManager.loadSounds(),
+            this.highScoreManager.loadScores()
+        ]);
+
+        this.audioManager.playMusic(SOUND_NAMES.MUSIC);
+    }
+
+    /**
+     * Get the game ready to be rendered headless, where no assets can be loaded. Sprites are made straight from the
+     * image manifest, so a renderer that doesn't draw pixels, like the recording canvas, can log them being drawn.
+     */
+    loadHeadless() {
+        this.imageManager.createHeadlessSprites();
     }
 
     /**
-     * The main game loop. If the game is in the playing state then clear the screen, update the game objects and current score, and then draw them.
-     * If the game is in the paused state then draw the pause icon.
+     * Start (or resume) the game loop. The time of the first frame is only used as a reference point, so time spent
+     * paused is never simulated.
      */
     run() {
-        if (this.isPlaying()) {
-            this.canvas.clearCanvas();
-    
-            this.updateGameWindow();
-            this.updateCurrentScore();
-            this.drawGameWindow();
-    
-            requestAnimationFrame(this.run.bind(this));
+        if(this.frameRequestId !== null) {
+            cancelAnimationFrame(this.frameRequestId);
         }
 
+        this.lastFrameTime = null;
+        this.frameRequestId = requestAnimationFrame(this.runFrame.bind(this));
+    }
+
+    /**
+     * The main game loop. If the game is in the playing state then run as many fixed simulation steps as the elapsed
+     * time allows, then clear the screen and draw the game objects interpolated between the last two steps.
+     * If the game is in the paused state then draw the world as it is, with the pause icon over it, so nothing left
+     * over from the controls screen stays on screen. While the controls screen is open, the world is drawn as it is
+     * behind the screen without being simulated.
+     */
+    runFrame(frameTime: number) {
+        this.frameRequestId = null;
+
         if(this.isPaused()) {
+            this.render(1);
             this.drawPauseIcon();
+            this.drawHighScores();
+            this.canvas.flush();
+            return;
+        }
+
+        if(this.isShowingControls()) {
+            this.render(1);
+            this.lastFrameTime = frameTime;
+            this.frameRequestId = requestAnimationFrame(this.runFrame.bind(this));
+            return;
+        }
+
+        if(this.lastFrameTime !== null) {
+            this.accumulatedTime += Math.min(frameTime - this.lastFrameTime, MAX_FRAME_TIME_MS);
         }
+        this.lastFrameTime = frameTime;
+
+        while(this.accumulatedTime >= SIMULATION_STEP_MS) {
+            this.step();
+            this.accumulatedTime -= SIMULATION_STEP_MS;
+        }
+
+        this.render(this.accumulatedTime / SIMULATION_STEP_MS);
+
+        this.frameRequestId = requestAnimationFrame(this.runFrame.bind(this));
     }
 
     /**
-     * Update the current score if the skier is moving downwards.
+     * Advance the simulation by a single fixed step: update the game objects and the current score.
+     */
+    step() {
+        this.gameTime += SIMULATION_STEP_MS;
+        this.currentStep++;
+
+        this.updateGameWindow();
+        this.updateCurrentScore();
+
+        if(this.isPlaying() && this.skier.isDead()) {
+            this.gameOver();
+        }
+
+        if(this.isPlaying() && this.gateManager?.isFinished()) {
+            this.gameOver();
+        }
+
+        if(this.isPlaying() && !this.gateManager && this.course &&
+            this.skier.getPosition().y >= this.course.finishLineY) {
+            this.courseFinished = true;
+            this.finishTime = this.gameTime;
+            this.gameOver();
+        }
+    }
+
+    /**
+     * Clear the screen and draw the game objects, interpolated the given amount between the last two simulation steps.
+     * Once the game is over, the results are drawn on top. Anything the renderer batched up is drawn at the end.
+     */
+    render(alpha: number) {
+        this.canvas.clearCanvas();
+        this.drawGameWindow(alpha);
+
+        if(this.isGameOver()) {
+            this.drawResults();
+        }
+        else if(this.isShowingControls() && this.controlsScreen) {
+            this.controlsScreen.draw();
+        }
+
+        this.canvas.flush();
+    }
+
+    /**
+     * Update the current score if the skier is moving downwards. The score goes up once per simulation step, so it
+     * increases at the same rate on every display.
      */
     updateCurrentScore() {
         if(this.skier.isMovingDownwards()) {
@@ -197,43 +715,210 @@ export class Game {
      * Do any updates needed to the game objects
      */
     updateGameWindow() {
-        this.gameTime = Date.now();
-
-        const previousGameWindow: Rect = this.gameWindow;
-        this.calculateGameWindow();
+        const previousGameWindow: Rect = this.camera.getGameWindow();
+        this.moveCamera();
+        const gameWindow: Rect = this.camera.getGameWindow();
+
+        // A course already has all of its obstacles and a race doesn't have any, so obstacles are only generated for an
+        // endless run in a world made from the seed
+        if(this.isEndlessRun()) {
+            // Progressively increase the obstacle frequency, as the player's score increases
+            if(this.currentScore % OBSTACLE_FREQUENCY_INCREASE_THRESHOLD === 0) {
+                this.obstacleManager.increaseObstaclePlacementChance();
+            }
+
+            this.obstacleManager.placeNewObstacle(gameWindow, previousGameWindow);
+            this.obstacleManager.removeDistantObstacles(gameWindow);
+        }
 
-        // Progressively increase the obstacle frequency, as the player's score increases
-        if(this.currentScore % OBSTACLE_FREQUENCY_INCREASE_THRESHOLD === 0) {
-            this.obstacleManager.increaseObstaclePlacementChance();
+        const wasCrashed = this.skier.isCrashed();
+        this.skier.update(this.currentScore);
+        if(!wasCrashed && this.skier.isCrashed()) {
+            this.camera.shake(CRASH_SHAKE_STRENGTH, CRASH_SHAKE_DURATION_MS);
+        }
+        if(this.hasRhino()) {
+            this.rhinoDirector.update(this.gameTime, this.currentScore, this.skier);
         }
 
-        this.obstacleManager.placeNewObstacle(this.gameWindow, previousGameWindow);
+        if(this.gateManager) {
+            this.gateManager.update(this.skier.previousPosition, this.skier.getPosition(), this.gameTime);
+        }
 
-        this.skier.update(this.gameTime, this.currentScore);
-        this.rhino.update(this.gameTime, this.currentScore, this.skier);
+        this.particleSystem.update(SIMULATION_STEP_MS);
     }
 
     /**
-     * Draw all entities to the screen, in the correct order. Also setup the canvas draw offset so that we see the
-     * rectangular space denoted by the game window.
+     * Draw all entities to the screen, in the correct order. Also point the canvas at where the camera is drawn rather
+     * than where it was last simulated, so that we see the rectangular space denoted by the game window. Everything is
+     * submitted to the render queue, which draws it layer by layer, with whatever's further down the slope in front.
      */
-    drawGameWindow() {
-        this.canvas.setDrawOffset(this.gameWindow.left, this.gameWindow.top);
-        this.drawGameMetadata();
+    drawGameWindow(alpha: number) {
+        this.camera.applyToCanvas(alpha);
+
+        this.renderQueue.submit(RENDER_LAYERS.GROUND, 0, () => this.particleSystem.draw());
+        if(this.course) {
+            const finishLineY = this.course.finishLineY;
+            this.renderQueue.submit(RENDER_LAYERS.GROUND, finishLineY, () => this.drawFinishLine(finishLineY));
+        }
+
+        this.gateManager?.submitGates(this.renderQueue);
+        this.obstacleManager.submitObstacles(this.renderQueue);
+        this.skier.submitDraw(this.renderQueue, alpha);
+        if(this.hasRhino()) {
+            this.rhinoDirector.submitRhino(this.renderQueue, alpha);
+        }
+
+        this.renderQueue.submit(RENDER_LAYERS.HUD, 0, () => this.drawGameMetadata());
+        if(this.hasRhino()) {
+            this.renderQueue.submit(RENDER_LAYERS.HUD, 0, () => this.rhinoDirector.drawWarnings(this.gameTime, alpha));
+        }
 
-        this.skier.draw();
-        this.rhino.draw();
-        this.obstacleManager.drawObstacles();
+        this.renderQueue.flush();
     }
 
     /**
-     * Draw the game's metadata which includes instructions for the player to pause or reset the game, as well as the current game score.
+     * Draw the game's metadata which includes instructions for the player to pause or reset the game, the current game
+     * score and the seed the world was generated from, so that a run can be reported and reproduced.
      */
     drawGameMetadata() {
-        this.canvas.ctx.font = 'bold 24px monospace';
-        this.canvas.ctx.fillText(`Press ${KEYS.RESET} to reset`, GAME_METADATA_X, RESET_TEXT_Y);
-        this.canvas.ctx.fillText(`Press ${KEYS.PAUSE} to pause`, GAME_METADATA_X, PAUSE_TEXT_Y);
-        this.canvas.ctx.fillText("Score: " + this.currentScore, GAME_METADATA_X, SCORE_TEXT_Y);
+        const resetKey = this.keyBindings.getKeyLabel(ACTIONS.RESET);
+        const pauseKey = this.keyBindings.getKeyLabel(ACTIONS.PAUSE);
+        const saveReplayKey = this.keyBindings.getKeyLabel(ACTIONS.SAVE_REPLAY);
+        const controlsKey = this.keyBindings.getKeyLabel(ACTIONS.CONTROLS);
+        const muteKey = this.keyBindings.getKeyLabel(ACTIONS.MUTE);
+        const muteText = this.audioManager.isMuted() ? 'unmute' : 'mute';
+
+        this.canvas.drawText(`Press ${resetKey} to reset`, GAME_METADATA_X, RESET_TEXT_Y, GAME_METADATA_FONT);
+        this.canvas.drawText(`Press ${pauseKey} to pause`, GAME_METADATA_X, PAUSE_TEXT_Y, GAME_METADATA_FONT);
+        this.canvas.drawText(`Press ${saveReplayKey} to save replay`, GAME_METADATA_X, SAVE_REPLAY_TEXT_Y, GAME_METADATA_FONT);
+        this.canvas.drawText(`Press ${controlsKey} for controls`, GAME_METADATA_X, CONTROLS_TEXT_Y, GAME_METADATA_FONT);
+        this.canvas.drawText(`Press ${muteKey} to ${muteText}`, GAME_METADATA_X, MUTE_TEXT_Y, GAME_METADATA_FONT);
+        this.canvas.drawText(this.getScoreText(), GAME_METADATA_X, SCORE_TEXT_Y, GAME_METADATA_FONT);
+        const worldText = this.course ? "Course: " + this.course.name : "Seed: " + this.random.getSeed();
+        this.canvas.drawText(worldText, GAME_METADATA_X, SEED_TEXT_Y, GAME_METADATA_FONT);
+    }
+
+    /**
+     * The score shown while playing. In a race, this is the race time, with any penalties shown separately.
+     */
+    getScoreText(): string {
+        if(!this.gateManager) {
+            return "Score: " + this.currentScore;
+        }
+
+        const penaltyTime = this.gateManager.getPenaltyTime();
+        const penaltyText = penaltyTime ? ` (+${formatTime(penaltyTime)})` : '';
+        return `Time: ${formatTime(this.gateManager.getElapsedTime(this.gameTime))}${penaltyText}`;
+    }
+
+    /**
+     * Draw the finish line of the course across the screen, if it's in view.
+     */
+    drawFinishLine(finishLineY: number) {
+        const finishLineScreenY = this.canvas.worldToScreen(0, finishLineY).y;
+        if(finishLineScreenY < 0 || finishLineScreenY > this.canvas.height) {
+            return;
+        }
+
+        this.canvas.drawRect(0, finishLineScreenY, this.canvas.width, FINISH_LINE_HEIGHT);
+    }
+
+    /**
+     * Draw the results of the run: the final score, how far the skier got and what killed them, or how long they took
+     * to finish the course, along with how to start a new run.
+     */
+    drawResults() {
+        if(this.gateManager) {
+            this.drawRaceResults(this.gateManager);
+            return;
+        }
+
+        const x = (this.canvas.width / 2) - RESULTS_OFFSET_X;
+        const y = (this.canvas.height / 2) - RESULTS_OFFSET_Y;
+        const title = this.courseFinished ? 'Course finished' : 'Game over';
+        const outcome = this.courseFinished ?
+            `Time: ${formatTime(this.finishTime)}` :
+            (this.skier.causeOfDeath ?? '');
+
+        this.canvas.drawText(title, x, y, RESULTS_TITLE_FONT);
+        this.canvas.drawText(`Score: ${this.currentScore}`, x, y + RESULTS_LINE_HEIGHT, RESULTS_FONT);
+        this.canvas.drawText(`Distance: ${this.getDistance()}m`, x, y + RESULTS_LINE_HEIGHT * 2, RESULTS_FONT);
+        this.canvas.drawText(outcome, x, y + RESULTS_LINE_HEIGHT * 3, RESULTS_FONT);
+
+        if(this.enteringInitials) {
+            const initials = this.initials.split('').map((letter: string, index: number) => {
+                return index === this.initialsCursor ? `[${letter}]` : ` ${letter} `;
+            }).join('');
+
+            this.canvas.drawText(`New high score! ${initials}`, x, y + RESULTS_LINE_HEIGHT * 4, RESULTS_FONT);
+            this.canvas.drawText('Up/down: letter, left/right: move', x, y + RESULTS_LINE_HEIGHT * 5, RESULTS_FONT);
+            this.canvas.drawText('Jump to save', x, y + RESULTS_LINE_HEIGHT * 6, RESULTS_FONT);
+        }
+        else {
+            this.canvas.drawText(`Press ${this.keyBindings.getKeyLabel(ACTIONS.RESET)} to retry`, x, y + RESULTS_LINE_HEIGHT * 4, RESULTS_FONT);
+        }
+
+        this.drawHighScores();
+    }
+
+    /**
+     * Draw the results of a slalom race: the race time, the penalties for any missed gates and the split time at every
+     * gate.
+     */
+    drawRaceResults(gateManager: GateManager) {
+        const x = (this.canvas.width / 2) - RESULTS_OFFSET_X;
+        const y = (this.canvas.height / 2) - RESULTS_OFFSET_Y;
+        const missedGates = gateManager.getMissedGateCount();
+
+        this.canvas.drawText('Race finished', x, y, RESULTS_TITLE_FONT);
+        this.canvas.drawText(`Time: ${formatTime(gateManager.getRaceTime(this.gameTime))}`, x, y + RESULTS_LINE_HEIGHT, RESULTS_FONT);
+        this.canvas.drawText(
+            `Missed gates: ${missedGates} (+${formatTime(gateManager.getPenaltyTime())})`,
+            x,
+            y + RESULTS_LINE_HEIGHT * 2,
+            RESULTS_FONT
+        );
+        this.canvas.drawText(`Press ${this.keyBindings.getKeyLabel(ACTIONS.RESET)} to retry`, x, y + RESULTS_LINE_HEIGHT * 3, RESULTS_FONT);
+
+        const splitsY = y + RESULTS_LINE_HEIGHT * 4;
+        gateManager.getSplits().forEach((split: iRaceSplit, index: number) => {
+            const splitText = `Gate ${split.gateNumber}: ${formatTime(split.time)}${split.missed ? ' missed' : ''}`;
+            this.canvas.drawText(splitText, x, splitsY + SPLITS_LINE_HEIGHT * index, SPLITS_FONT);
+        });
+
+        const finishY = splitsY + SPLITS_LINE_HEIGHT * gateManager.getSplits().length;
+        this.canvas.drawText(`Finish: ${formatTime(gateManager.getElapsedTime(this.gameTime))}`, x, finishY, SPLITS_FONT);
+    }
+
+    /**
+     * Draw the high score table under the game metadata.
+     */
+    drawHighScores() {
+        const scores: iHighScore[] = this.highScoreManager.getScores();
+
+        this.canvas.drawText(`Top ${MAX_HIGH_SCORES}`, GAME_METADATA_X, HIGH_SCORES_Y, HIGH_SCORES_TITLE_FONT);
+        scores.forEach((highScore: iHighScore, index: number) => {
+            const date = highScore.date.slice(0, 10);
+            const line = `${index + 1}. ${highScore.initials.padEnd(DEFAULT_INITIALS.length)} ${highScore.score} ` +
+                `${highScore.distance}m seed ${highScore.seed} ${date}`;
+            const y = HIGH_SCORES_Y + HIGH_SCORES_LINE_HEIGHT * (index + 1);
+
+            this.canvas.drawText(line, GAME_METADATA_X, y, HIGH_SCORES_FONT);
+        });
+    }
+
+    /**
+     * Draw the loading screen, showing how much of the loading is complete, from 0 to 1.
+     */
+    drawLoadingScreen(progress: number) {
+        const x = (this.canvas.width - LOADING_BAR_WIDTH) / 2;
+        const y = this.canvas.height / 2;
+
+        this.canvas.clearCanvas();
+        this.canvas.drawText(`Loading... ${Math.round(progress * 100)}%`, x, y - LOADING_TEXT_OFFSET_Y, LOADING_FONT);
+        this.canvas.drawRect(x, y, LOADING_BAR_WIDTH, LOADING_BAR_HEIGHT, LOADING_BAR_BACKGROUND_COLOR);
+        this.canvas.drawRect(x, y, LOADING_BAR_WIDTH * progress, LOADING_BAR_HEIGHT);
+        this.canvas.flush();
     }
 
     /**
@@ -243,35 +928,93 @@ export class Game {
         const pauseIconOffset = 30;
         const pauseIconWidth = 40;
         const pauseIconHeight = 80;
-        const x1 = (GAME_WIDTH / 2) - pauseIconOffset;
-        const x2 = (GAME_WIDTH / 2) + pauseIconOffset;
-        const y = (GAME_HEIGHT / 2) + pauseIconOffset;
-        this.canvas.ctx.lineWidth = 10;
-        this.canvas.ctx.fillRect(x1, y, pauseIconWidth, pauseIconHeight);
-        this.canvas.ctx.fillRect(x2, y, pauseIconWidth, pauseIconHeight);
+        const x1 = (this.canvas.width / 2) - pauseIconOffset;
+        const x2 = (this.canvas.width / 2) + pauseIconOffset;
+        const y = (this.canvas.height / 2) + pauseIconOffset;
+        this.canvas.drawRect(x1, y, pauseIconWidth, pauseIconHeight);
+        this.canvas.drawRect(x2, y, pauseIconWidth, pauseIconHeight);
+    }
+
+    /**
+     * Resize the game to fit a new viewport size, e.g. when the browser window is resized. The world is laid out
+     * against the viewport, so a change in size is recorded to be made at the same simulation step in a replay.
+     */
+    resize(width: number, height: number) {
+        if(width !== this.canvas.width || height !== this.canvas.height) {
+            this.replayRecorder.recordResize(this.currentStep, width, height);
+        }
+
+        this.applyResize(width, height);
     }
 
     /**
-     * Calculate the game window (the rectangular space drawn to the screen). It's centered around the player and must
-     * be updated since the player moves position.
+     * Resize the canvas, and with it the game window. Any of the slope that's revealed in an endless run is filled with
+     * obstacles straight away, so a bigger window doesn't show an empty slope.
      */
-    calculateGameWindow() {
-        const skierPosition: Position = this.skier.getPosition();
-        const left: number = skierPosition.x - (GAME_WIDTH / 2);
-        const top: number = skierPosition.y - (GAME_HEIGHT / 2);
+    applyResize(width: number, height: number) {
+        const previousGameWindow: Rect = this.camera.getGameWindow();
+        this.canvas.resize(width, height);
+
+        const gameWindow: Rect = this.camera.getGameWindow();
+        this.audioManager.setListenerArea(gameWindow);
+        if(this.isEndlessRun()) {
+            this.obstacleManager.placeObstaclesInRevealedArea(gameWindow, previousGameWindow);
+        }
+    }
 
-        this.gameWindow = new Rect(left, top, left + GAME_WIDTH, top + GAME_HEIGHT);
+    /**
+     * Move the camera, and with it the game window (the rectangular space drawn to the screen), along after the player.
+     * Sound effects are heard relative to the game window.
+     */
+    moveCamera() {
+        this.camera.follow(this.skier.getPosition(), this.skier.previousPosition);
+        this.audioManager.setListenerArea(this.camera.getGameWindow());
     }
 
     /**
-     * Handle keypresses and delegate to any game objects that might have key handling of their own.
+     * Handle the player's actions and delegate to any game objects that might have input handling of their own. Actions
+     * that steer the skier are recorded against the next simulation step, as that's the first step they can affect.
+     * While the player is entering their initials or the controls screen is open, every action goes there instead.
      */
-    handleKeyDown(event: KeyboardEvent) {
-        const handledByGame: boolean = this.handleInput(event.key);
-        const handledBySkier: boolean = this.isPlaying() && this.skier.handleInput(event.key);
+    handleAction(action: ACTIONS): boolean {
+        if(this.isShowingControls() && this.controlsScreen) {
+            if(action === ACTIONS.CONTROLS && !this.controlsScreen.isCapturing()) {
+                this.toggleControls();
+            } else {
+                this.controlsScreen.handleInput(action);
+            }
+            return true;
+        }
 
-        if(handledByGame || handledBySkier) {
-            event.preventDefault();
+        if(this.enteringInitials) {
+            this.handleInitialsInput(action);
+            return true;
         }
+
+        const handledByGame: boolean = this.handleInput(action);
+        const handledBySkier: boolean = this.isPlaying() && this.skier.handleInput(action);
+
+        if(handledBySkier) {
+            this.replayRecorder.record(this.currentStep, action);
+        }
+
+        return handledByGame || handledBySkier;
     }
+
+    /**
+     * Feed a recorded action back in exactly the way it was handled when it was recorded.
+     */
+    applyReplayInput(action: ACTIONS) {
+        this.handleInput(action);
+        if(this.isPlaying()) {
+            this.skier.handleInput(action);
+        }
+    }
+}
+
+/**
+ * Format a time in ms as seconds, to the hundredth of a second.
+ */
+function formatTime(time: number): string {
+    return `${(time / 1000).toFixed(2)}s`;
 }
\ No newline at end of file
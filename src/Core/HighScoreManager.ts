@@ -0,0 +1,129 @@
+/**
+ * Keeps track of the top high scores. Scores are shared through the leaderboard API when the game is served by our
+ * server, and always saved to local storage as well so there's a leaderboard to fall back to when the API can't be
+ * reached.
+ */
+
+import { iHighScore } from "../Interfaces/iHighScore";
+
+/**
+ * The number of scores kept in the high score table
+ */
+export const MAX_HIGH_SCORES: number = 10;
+
+const HIGH_SCORES_URL: string = '/api/scores';
+const HIGH_SCORES_STORAGE_KEY: string = 'cerosSkiHighScores';
+
+/**
+ * How long to wait for the leaderboard API before giving up on it and using the local scores, so a server that never
+ * answers can't hold up the game starting.
+ */
+const HIGH_SCORES_TIMEOUT_MS: number = 5000;
+
+export class HighScoreManager {
+    /**
+     * The most recently loaded high scores, highest first
+     */
+    private scores: iHighScore[] = [];
+
+    getScores(): iHighScore[] {
+        return this.scores;
+    }
+
+    /**
+     * Does the score make it into the high score table
+     */
+    qualifies(score: number): boolean {
+        if(score <= 0) {
+            return false;
+        }
+
+        return this.scores.length < MAX_HIGH_SCORES || score > this.scores[this.scores.length - 1].score;
+    }
+
+    /**
+     * Load the high scores from the leaderboard API, falling back to local storage if it can't be reached.
+     */
+    async loadScores(): Promise<iHighScore[]> {
+        try {
+            this.scores = await this.requestScores(HIGH_SCORES_URL);
+        } catch(error) {
+            this.scores = this.loadLocalScores();
+        }
+
+        return this.scores;
+    }
+
+    /**
+     * Add a new score to the table. It's saved locally and then sent to the leaderboard API, which returns the updated
+     * shared table. If the API can't be reached, the local table is used instead.
+     */
+    async submitScore(highScore: iHighScore): Promise<iHighScore[]> {
+        const localScores = addScore(this.loadLocalScores(), highScore);
+        this.saveLocalScores(localScores);
+
+        try {
+            this.scores = await this.requestScores(HIGH_SCORES_URL, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(highScore)
+            });
+        } catch(error) {
+            this.scores = localScores;
+        }
+
+        return this.scores;
+    }
+
+    /**
+     * Make a request to the leaderboard API, rejecting if it fails, takes longer than HIGH_SCORES_TIMEOUT_MS or doesn't
+     * return a list of scores.
+     */
+    private async requestScores(url: string, options?: RequestInit): Promise<iHighScore[]> {
+        const controller = new AbortController();
+        const timeout = window.setTimeout(() => controller.abort(), HIGH_SCORES_TIMEOUT_MS);
+
+        try {
+            const response = await fetch(url, { ...options, signal: controller.signal });
+            if(!response.ok) {
+                throw new Error(`High score request failed with status ${response.status}`);
+            }
+
+            const scores = await response.json();
+            if(!Array.isArray(scores)) {
+                throw new Error('High score response is not a list of scores');
+            }
+
+            return scores;
+        } finally {
+            window.clearTimeout(timeout);
+        }
+    }
+
+    private loadLocalScores(): iHighScore[] {
+        try {
+            const scores = JSON.parse(localStorage.getItem(HIGH_SCORES_STORAGE_KEY) || '[]');
+            return Array.isArray(scores) ? scores : [];
+        } catch(error) {
+            return [];
+        }
+    }
+
+    private saveLocalScores(scores: iHighScore[]) {
+        try {
+            localStorage.setItem(HIGH_SCORES_STORAGE_KEY, JSON.stringify(scores));
+        } catch(error) {
+            console.error(error);
+        }
+    }
+}
+
+/**
+ * Return a new table with the score added in order, trimmed down to MAX_HIGH_SCORES entries.
+ */
+function addScore(scores: iHighScore[], highScore: iHighScore): iHighScore[] {
+    return scores
+        .concat(highScore)
+        .sort((score1: iHighScore, score2: iHighScore) => score2.score - score1.score)
+        .slice(0, MAX_HIGH_SCORES);
+}
\ No newline at end of file
@@ -1,54 +1,353 @@
 /**
- * Handles loading of any images needed for the game.
+ * Handles loading of any images needed for the game, both standalone image files and sprites packed into texture
+ * atlases. Sprite sizes and hitboxes come from the image manifest rather than the loaded images, so they're available
+ * before (or without) loading anything. Loads that fail or take too long are retried, and any sprite that still
+ * couldn't be loaded is drawn as a placeholder, so a missing file never stops the game from starting.
  */
 
 import { IMAGE_NAMES } from "../Constants";
-import { iImage } from "../Interfaces/iImage";
+import { iAtlas, iAtlasFrame, iAtlasFrames } from "../Interfaces/iAtlas";
+import { iHitbox, iHitboxShape } from "../Interfaces/iHitbox";
+import { iImage, iImageManifest } from "../Interfaces/iImage";
+import { iSprite } from "../Interfaces/iSprite";
+import { Shape } from "./Collision";
+import { Circle, Rect } from "./Utils";
 
 /**
- * Scale all images loaded by this amount
+ * Scale images by this amount, unless the manifest gives them a scale of their own
  * @type {number}
  * */
-const SCALE: number = 0.5;
+const DEFAULT_SCALE: number = 0.5;
+
+/**
+ * How long to wait for a file to load before giving up on that attempt, and how many attempts are made in total
+ */
+const LOAD_TIMEOUT_MS: number = 10000;
+const MAX_LOAD_ATTEMPTS: number = 3;
+
+/**
+ * The placeholder is a checkerboard of squares this many pixels across, in colors that stand out on the snow
+ */
+const PLACEHOLDER_SQUARE_SIZE: number = 8;
+const PLACEHOLDER_COLORS: string[] = ['#ff00ff', '#000000'];
 
 export class ImageManager {
-    loadedImages: {[key in IMAGE_NAMES]?: HTMLImageElement} = {};
+    loadedSprites: {[key in IMAGE_NAMES]?: iSprite} = {};
+
+    /**
+     * The atlases that can be loaded
+     */
+    atlases: iAtlas[];
+
+    /**
+     * The images that can be loaded, whether standalone or in an atlas
+     */
+    images: iImage[];
+
+    /**
+     * The same images, keyed by name for quick lookups
+     */
+    manifest: {[key in IMAGE_NAMES]?: iImage} = {};
+
+    /**
+     * The hitbox of each sprite, as defined relative to the center of its image
+     */
+    hitboxes: {[key in IMAGE_NAMES]?: iHitbox};
+
+    /**
+     * Drawn in place of any sprite that couldn't be loaded. Only created if it's needed.
+     */
+    private placeholder: HTMLCanvasElement | null = null;
+
+    constructor(imageManifest: iImageManifest, hitboxes: {[key in IMAGE_NAMES]?: iHitbox} = {}) {
+        this.atlases = imageManifest.atlases;
+        this.images = imageManifest.images;
+        for (const image of this.images) {
+            this.manifest[image.name] = image;
+        }
+
+        this.hitboxes = hitboxes;
+    }
+
+    /**
+     * Load each of the atlases and standalone images in the manifest and return a promise that resolves when they've
+     * all finished loading, or failed to. The progress callback is called with how much of the loading is complete, from
+     * 0 to 1, as each file finishes, so a loading screen can show it.
+     */
+    async loadImages(onProgress?: (progress: number) => void): Promise<void> {
+        const loadPromises: Promise<void>[] = this.atlases.map((atlas: iAtlas) => this.loadAtlas(atlas));
+        for (const image of this.images) {
+            if(image.url) {
+                loadPromises.push(this.loadSingleImage(image, image.url));
+            }
+        }
+
+        let completedCount = 0;
+        onProgress?.(0);
+        await Promise.all(loadPromises.map(async (loadPromise: Promise<void>) => {
+            await loadPromise;
+            completedCount++;
+            onProgress?.(completedCount / loadPromises.length);
+        }));
+
+        for (const image of this.images) {
+            if(!this.loadedSprites[image.name]) {
+                this.loadedSprites[image.name] = this.createSprite(image, this.getPlaceholder());
+            }
+        }
+    }
+
+    /**
+     * Load an atlas's sheet and frame map, and make a sprite for each image in the manifest that's in the atlas. If the
+     * atlas fails to load, its images are left to the placeholder.
+     */
+    async loadAtlas(atlas: iAtlas): Promise<void> {
+        try {
+            const [sheet, atlasFrames] = await Promise.all([
+                retryLoad(() => loadImageFile(atlas.url)),
+                retryLoad(() => loadJsonFile<iAtlasFrames>(atlas.framesUrl))
+            ]);
+
+            for (const image of this.images) {
+                if(image.atlas !== atlas.name) {
+                    continue;
+                }
+
+                const frame = atlasFrames.frames[image.name];
+                if(!frame) {
+                    console.error(`Frame ${image.name} not found in atlas ${atlas.name}`);
+                    continue;
+                }
+
+                this.loadedSprites[image.name] = this.createSprite(image, sheet, frame);
+            }
+        } catch(error) {
+            console.error(error);
+        }
+    }
 
     /**
-     * Load each of the passed in images and return a promise that resolves when all images are finished loading
+     * Load a standalone image file and make its sprite. If it fails to load, it's left to the placeholder.
      */
-    async loadImages(images: iImage[]): Promise<void> {
-        const imagePromises: Promise<void>[] = [];
+    async loadSingleImage(image: iImage, url: string): Promise<void> {
+        try {
+            const loadedImage = await retryLoad(() => loadImageFile(url));
+            this.loadedSprites[image.name] = this.createSprite(image, loadedImage);
+        } catch(error) {
+            console.error(error);
+        }
+    }
 
-        for (const image of images) {
-            const imagePromise: Promise<void> = this.loadSingleImage(image);
-            imagePromises.push(imagePromise);
+    /**
+     * Make a sprite for every image straight from the manifest, without loading any files, for rendering headless where
+     * there's nothing to load them with. The sprites have no image, so only renderers that don't draw any pixels, like
+     * the recording canvas, can draw them.
+     */
+    createHeadlessSprites() {
+        for (const image of this.images) {
+            this.loadedSprites[image.name] = this.createSprite(image, null);
         }
+    }
 
-        await Promise.all(imagePromises);
+    /**
+     * Make a sprite for an image in the manifest, drawn from the given frame of the loaded image, or all of it if no
+     * frame is given.
+     */
+    createSprite(
+        image: iImage,
+        loadedImage: HTMLImageElement | HTMLCanvasElement | null,
+        frame?: iAtlasFrame
+    ): iSprite {
+        const scale = getScale(image);
+
+        return {
+            name: image.name,
+            image: loadedImage,
+            frame: frame ?? {
+                x: 0,
+                y: 0,
+                width: loadedImage?.width ?? image.width,
+                height: loadedImage?.height ?? image.height
+            },
+            width: image.width * scale,
+            height: image.height * scale
+        };
     }
 
     /**
-     * Load a single image and return a promise that resolves when the image is finished loading.
+     * Get the placeholder drawn in place of sprites that couldn't be loaded, creating it the first time it's needed.
      */
-    loadSingleImage(image: iImage): Promise<void> {
-        return new Promise((resolve) => {
-            const loadedImage = new Image();
-            loadedImage.onload = () => {
-                loadedImage.width *= SCALE;
-                loadedImage.height *= SCALE;
+    getPlaceholder(): HTMLCanvasElement {
+        if(!this.placeholder) {
+            this.placeholder = createPlaceholder();
+        }
 
-                this.loadedImages[image.name] = loadedImage;
-                resolve();
-            };
-            loadedImage.src = image.url;
-        });
+        return this.placeholder;
     }
 
     /**
-     * Get a single Image by name
+     * Get a single sprite by name
      */
-    getImage(name: IMAGE_NAMES): HTMLImageElement | undefined {
-        return this.loadedImages[name];
+    getSprite(name: IMAGE_NAMES): iSprite | undefined {
+        return this.loadedSprites[name];
     }
+
+    /**
+     * Get the size a sprite is displayed at, scaled the same way loaded sprites are
+     */
+    getSpriteSize(name: IMAGE_NAMES): { width: number, height: number } | undefined {
+        const image = this.manifest[name];
+        if(!image) {
+            return undefined;
+        }
+
+        const scale = getScale(image);
+
+        return {
+            width: image.width * scale,
+            height: image.height * scale
+        };
+    }
+
+    /**
+     * Get the shapes that make up a sprite's hitbox, relative to the center of the sprite and scaled the same way loaded
+     * sprites are. Sprites without a hitbox defined use their whole image.
+     */
+    getHitbox(name: IMAGE_NAMES): Shape[] {
+        const hitbox = this.hitboxes[name];
+        const image = this.manifest[name];
+        if(hitbox && image) {
+            return hitbox.shapes.map((shape: iHitboxShape) => scaleHitboxShape(shape, getScale(image)));
+        }
+
+        const spriteSize = this.getSpriteSize(name);
+        if(!spriteSize) {
+            return [];
+        }
+
+        return [new Rect(-spriteSize.width / 2, -spriteSize.height / 2, spriteSize.width / 2, spriteSize.height / 2)];
+    }
+
+    /**
+     * Get the shapes that make up the trunk of a sprite's hitbox, scaled the same way as the rest of the hitbox. Sprites
+     * without a trunk defined use their whole hitbox.
+     */
+    getTrunkHitbox(name: IMAGE_NAMES): Shape[] {
+        const trunk = this.hitboxes[name]?.trunk;
+        const image = this.manifest[name];
+        if(!trunk || !image) {
+            return this.getHitbox(name);
+        }
+
+        return trunk.map((shape: iHitboxShape) => scaleHitboxShape(shape, getScale(image)));
+    }
+}
+
+/**
+ * The scale an image is displayed at
+ */
+function getScale(image: iImage): number {
+    return image.scale ?? DEFAULT_SCALE;
+}
+
+/**
+ * Turn a hitbox shape from the manifest into a shape at the size its sprite is displayed at.
+ */
+function scaleHitboxShape(shape: iHitboxShape, scale: number): Shape {
+    if(shape.type === 'circle') {
+        return new Circle(shape.x * scale, shape.y * scale, shape.radius * scale);
+    }
+
+    return new Rect(
+        shape.x * scale,
+        shape.y * scale,
+        (shape.x + shape.width) * scale,
+        (shape.y + shape.height) * scale
+    );
+}
+
+/**
+ * Try a load up to MAX_LOAD_ATTEMPTS times, returning the first successful result or throwing the last error.
+ */
+async function retryLoad<T>(load: () => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for(let attempt = 0; attempt < MAX_LOAD_ATTEMPTS; attempt++) {
+        try {
+            return await load();
+        } catch(error) {
+            lastError = error;
+        }
+    }
+
+    throw lastError;
+}
+
+/**
+ * Load an image file, rejecting if it fails to load or takes longer than LOAD_TIMEOUT_MS.
+ */
+function loadImageFile(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const loadedImage = new Image();
+        const timeout = window.setTimeout(() => {
+            loadedImage.onload = null;
+            loadedImage.onerror = null;
+            loadedImage.src = '';
+            reject(new Error(`Timed out loading image ${url}`));
+        }, LOAD_TIMEOUT_MS);
+
+        loadedImage.onload = () => {
+            window.clearTimeout(timeout);
+            resolve(loadedImage);
+        };
+        loadedImage.onerror = () => {
+            window.clearTimeout(timeout);
+            reject(new Error(`Could not load image ${url}`));
+        };
+        loadedImage.src = url;
+    });
+}
+
+/**
+ * Load and parse a JSON file, rejecting if it fails to load or takes longer than LOAD_TIMEOUT_MS.
+ */
+async function loadJsonFile<T>(url: string): Promise<T> {
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => controller.abort(), LOAD_TIMEOUT_MS);
+
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if(!response.ok) {
+            throw new Error(`Could not load ${url}: ${response.status} ${response.statusText}`);
+        }
+
+        return await response.json();
+    } finally {
+        window.clearTimeout(timeout);
+    }
+}
+
+/**
+ * Draw the checkerboard placeholder sprite.
+ */
+function createPlaceholder(): HTMLCanvasElement {
+    const placeholder = document.createElement('canvas');
+    placeholder.width = PLACEHOLDER_SQUARE_SIZE * 2;
+    placeholder.height = PLACEHOLDER_SQUARE_SIZE * 2;
+
+    const ctx = placeholder.getContext('2d');
+    if(ctx) {
+        for(let index = 0; index < 4; index++) {
+            const column = index % 2;
+            const row = Math.floor(index / 2);
+            ctx.fillStyle = PLACEHOLDER_COLORS[(column + row) % 2];
+            ctx.fillRect(
+                column * PLACEHOLDER_SQUARE_SIZE,
+                row * PLACEHOLDER_SQUARE_SIZE,
+                PLACEHOLDER_SQUARE_SIZE,
+                PLACEHOLDER_SQUARE_SIZE
+            );
+        }
+    }
+
+    return placeholder;
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+/**
+ * Gamepad input source, using the Gamepad API. Gamepads don't fire events for button presses, so while any gamepad is
+ * connected they're polled every animation frame and an action is fired when a button (or the left stick) is pressed.
+ * Holding a direction repeats its action, the same way holding a key does. Browsers without the Gamepad API are left
+ * without this source.
+ */
+
+import { ACTIONS } from "../../Constants";
+import { ActionHandler, iInputSource } from "../../Interfaces/iInputSource";
+
+/**
+ * Mapping of buttons to actions, using the indexes of the browser's standard gamepad layout.
+ */
+const BUTTON_ACTIONS: {[button: number]: ACTIONS} = {
+    0: ACTIONS.JUMP,
+    2: ACTIONS.CONTROLS,
+    3: ACTIONS.SAVE_REPLAY,
+    8: ACTIONS.RESET,
+    9: ACTIONS.PAUSE,
+    12: ACTIONS.UP,
+    13: ACTIONS.DOWN,
+    14: ACTIONS.TURN_LEFT,
+    15: ACTIONS.TURN_RIGHT
+};
+
+/**
+ * Actions that repeat while their button is held down.
+ */
+const REPEATING_ACTIONS: ACTIONS[] = [ACTIONS.TURN_LEFT, ACTIONS.TURN_RIGHT, ACTIONS.UP, ACTIONS.DOWN];
+
+/**
+ * How long a direction has to be held before it starts repeating, and how often it repeats after that.
+ */
+const REPEAT_DELAY_MS: number = 300;
+const REPEAT_INTERVAL_MS: number = 80;
+
+/**
+ * How far the left stick has to be pushed before it counts as a direction being pressed.
+ */
+const STICK_THRESHOLD: number = 0.5;
+
+export class GamepadInput implements iInputSource {
+    private handleAction: ActionHandler | null = null;
+
+    /**
+     * When each currently held action will next fire, keyed by action
+     */
+    private heldActions: {[action: string]: number} = {};
+
+    /**
+     * The animation frame the next poll is requested for, or null when not polling
+     */
+    private frameRequestId: number | null = null;
+
+    attach(handleAction: ActionHandler) {
+        if(!('getGamepads' in navigator)) {
+            return;
+        }
+
+        this.handleAction = handleAction;
+
+        window.addEventListener('gamepadconnected', this.startPolling.bind(this));
+        window.addEventListener('gamepaddisconnected', this.handleDisconnect.bind(this));
+
+        if(this.isAnyConnected()) {
+            this.startPolling();
+        }
+    }
+
+    startPolling() {
+        if(this.frameRequestId === null) {
+            this.frameRequestId = requestAnimationFrame(this.poll.bind(this));
+        }
+    }
+
+    /**
+     * Stop polling once the last gamepad is disconnected, forgetting anything that was held on it. The gamepad being
+     * disconnected may still be listed while the event is handled, so it's left out.
+     */
+    handleDisconnect(event: GamepadEvent) {
+        if(this.isAnyConnected(event.gamepad.index) || this.frameRequestId === null) {
+            return;
+        }
+
+        cancelAnimationFrame(this.frameRequestId);
+        this.frameRequestId = null;
+        this.heldActions = {};
+    }
+
+    /**
+     * Is any gamepad connected, other than the one at the index to ignore, if given
+     */
+    isAnyConnected(ignoreIndex?: number): boolean {
+        return navigator.getGamepads().some((gamepad: Gamepad | null) => {
+            return gamepad !== null && gamepad.connected && gamepad.index !== ignoreIndex;
+        });
+    }
+
+    /**
+     * Check every connected gamepad for held actions and fire any that were just pressed or are due to repeat.
+     */
+    poll(time: number) {
+        const pressedActions: Set<ACTIONS> = new Set();
+
+        for(const gamepad of navigator.getGamepads()) {
+            if(gamepad) {
+                this.getPressedActions(gamepad).forEach((action: ACTIONS) => pressedActions.add(action));
+            }
+        }
+
+        const heldActions: {[action: string]: number} = {};
+        pressedActions.forEach((action: ACTIONS) => {
+            const nextFireTime = this.heldActions[action];
+
+            if(nextFireTime === undefined) {
+                this.fire(action);
+                heldActions[action] = time + REPEAT_DELAY_MS;
+            }
+            else if(time >= nextFireTime && REPEATING_ACTIONS.includes(action)) {
+                this.fire(action);
+                heldActions[action] = time + REPEAT_INTERVAL_MS;
+            }
+            else {
+                heldActions[action] = nextFireTime;
+            }
+        });
+        this.heldActions = heldActions;
+
+        this.frameRequestId = requestAnimationFrame(this.poll.bind(this));
+    }
+
+    /**
+     * Get the actions for every button pressed on the gamepad, treating the left stick like the directional pad.
+     */
+    getPressedActions(gamepad: Gamepad): ACTIONS[] {
+        const actions: ACTIONS[] = [];
+
+        gamepad.buttons.forEach((button: GamepadButton, index: number) => {
+            const action = BUTTON_ACTIONS[index];
+            if(action && button.pressed) {
+                actions.push(action);
+            }
+        });
+
+        const [stickX = 0, stickY = 0] = gamepad.axes;
+        if(stickX <= -STICK_THRESHOLD) {
+            actions.push(ACTIONS.TURN_LEFT);
+        }
+        else if(stickX >= STICK_THRESHOLD) {
+            actions.push(ACTIONS.TURN_RIGHT);
+        }
+
+        if(stickY <= -STICK_THRESHOLD) {
+            actions.push(ACTIONS.UP);
+        }
+        else if(stickY >= STICK_THRESHOLD) {
+            actions.push(ACTIONS.DOWN);
+        }
+
+        return actions;
+    }
+
+    fire(action: ACTIONS) {
+        if(this.handleAction) {
+            this.handleAction(action);
+        }
+    }
+}
\ No newline at end of file
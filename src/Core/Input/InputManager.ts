@@ -0,0 +1,35 @@
+/**
+ * The input layer between the player's devices and the game. Input sources (keyboard, gamepad, touch) are added to
+ * the manager, and every action any of them produces is passed to a single action handler.
+ */
+
+import { ACTIONS } from "../../Constants";
+import { ActionHandler, iInputSource } from "../../Interfaces/iInputSource";
+
+export class InputManager {
+    /**
+     * Receives every action produced by any of the input sources
+     */
+    private readonly handleAction: ActionHandler;
+
+    private readonly sources: iInputSource[] = [];
+
+    constructor(handleAction: ActionHandler) {
+        this.handleAction = handleAction;
+    }
+
+    /**
+     * Start listening to an input source.
+     */
+    addSource(source: iInputSource) {
+        this.sources.push(source);
+        source.attach(this.dispatch.bind(this));
+    }
+
+    /**
+     * Pass an action from one of the sources on to the action handler.
+     */
+    dispatch(action: ACTIONS): boolean {
+        return this.handleAction(action);
+    }
+}
\ No newline at end of file
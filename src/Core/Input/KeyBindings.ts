@@ -0,0 +1,138 @@
+/**
+ * The player's key bindings: which keyboard key performs each action. Bindings start out as the defaults, can be
+ * rebound from the controls screen and are saved to local storage so they're kept across sessions.
+ */
+
+import { ACTIONS, DEFAULT_KEY_BINDINGS } from "../../Constants";
+
+const KEY_BINDINGS_STORAGE_KEY: string = 'cerosSkiKeyBindings';
+
+/**
+ * Keys that can't be bound to an action, as they're used to back out of rebinding.
+ */
+export const RESERVED_KEYS: string[] = ['Escape'];
+
+/**
+ * Friendlier names for keys whose key value doesn't read well on screen.
+ */
+const KEY_LABELS: {[key: string]: string} = {
+    ' ': 'Space',
+    'ArrowLeft': 'Left',
+    'ArrowRight': 'Right',
+    'ArrowUp': 'Up',
+    'ArrowDown': 'Down'
+};
+
+export class KeyBindings {
+    private bindings: {[action in ACTIONS]: string};
+
+    constructor() {
+        this.bindings = this.loadBindings();
+    }
+
+    /**
+     * Get the key an action is bound to
+     */
+    getKey(action: ACTIONS): string {
+        return this.bindings[action];
+    }
+
+    /**
+     * Get the on screen name of the key an action is bound to
+     */
+    getKeyLabel(action: ACTIONS): string {
+        return getKeyLabel(this.getKey(action));
+    }
+
+    /**
+     * Get the action a key is bound to, if any. Letters match regardless of case, so caps lock doesn't change controls.
+     */
+    getAction(key: string): ACTIONS | null {
+        const normalizedKey = normalizeKey(key);
+        const action = (Object.keys(this.bindings) as ACTIONS[]).find((boundAction: ACTIONS) => {
+            return this.bindings[boundAction] === normalizedKey;
+        });
+
+        return action ?? null;
+    }
+
+    /**
+     * Find the action, other than the one being rebound, that the key is already bound to.
+     */
+    findConflict(action: ACTIONS, key: string): ACTIONS | null {
+        const boundAction = this.getAction(key);
+        return boundAction !== action ? boundAction : null;
+    }
+
+    /**
+     * Bind an action to a new key and save the bindings. Throws an error if the key is reserved or already bound to
+     * another action, so no key is ever bound twice.
+     */
+    bind(action: ACTIONS, key: string) {
+        if(RESERVED_KEYS.includes(key)) {
+            throw new Error(`${key} is reserved and can't be bound`);
+        }
+
+        const conflict = this.findConflict(action, key);
+        if(conflict) {
+            throw new Error(`${key} is already bound to ${conflict}`);
+        }
+
+        this.bindings[action] = normalizeKey(key);
+        this.saveBindings();
+    }
+
+    /**
+     * Go back to the default bindings and save them.
+     */
+    resetToDefaults() {
+        this.bindings = { ...DEFAULT_KEY_BINDINGS };
+        this.saveBindings();
+    }
+
+    /**
+     * Load the saved bindings. Any action missing from the saved bindings keeps its default, and if the saved bindings
+     * are unreadable or bind a key twice the defaults are used instead.
+     */
+    private loadBindings(): {[action in ACTIONS]: string} {
+        const bindings = { ...DEFAULT_KEY_BINDINGS };
+
+        try {
+            const savedBindings = JSON.parse(localStorage.getItem(KEY_BINDINGS_STORAGE_KEY) || '{}');
+            (Object.keys(bindings) as ACTIONS[]).forEach((action: ACTIONS) => {
+                if(typeof savedBindings[action] === 'string') {
+                    bindings[action] = savedBindings[action];
+                }
+            });
+        } catch(error) {
+            return { ...DEFAULT_KEY_BINDINGS };
+        }
+
+        const keys = Object.keys(bindings).map((action: string) => bindings[action as ACTIONS]);
+        const hasDuplicates = keys.some((key: string, index: number) => keys.indexOf(key) !== index);
+
+        return hasDuplicates ? { ...DEFAULT_KEY_BINDINGS } : bindings;
+    }
+
+    private saveBindings() {
+        try {
+            localStorage.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify(this.bindings));
+        } catch(error) {
+            console.error(error);
+        }
+    }
+}
+
+/**
+ * Get the on screen name of a key
+ */
+export function getKeyLabel(key: string): string {
+    return KEY_LABELS[key] ?? key;
+}
+
+/**
+ * Single letters are stored in lower case, so bindings aren't affected by shift or caps lock.
+ */
+function normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+/**
+ * Keyboard input source. Maps the keys that are pressed to actions using the player's key bindings, so rebinding a
+ * key takes effect straight away. Holding a key down repeats the action at the keyboard's own repeat rate. The next
+ * key press can also be captured instead, which is how keys are rebound.
+ */
+
+import { ActionHandler, iInputSource } from "../../Interfaces/iInputSource";
+import { KeyBindings } from "./KeyBindings";
+
+export class KeyboardInput implements iInputSource {
+    /**
+     * Which action each key performs
+     */
+    private readonly keyBindings: KeyBindings;
+
+    /**
+     * Receives the next key pressed instead of it being mapped to an action, if set
+     */
+    private keyCapture: ((key: string) => void) | null = null;
+
+    constructor(keyBindings: KeyBindings) {
+        this.keyBindings = keyBindings;
+    }
+
+    attach(handleAction: ActionHandler) {
+        document.addEventListener('keydown', (event: KeyboardEvent) => {
+            if(this.keyCapture) {
+                const keyCapture = this.keyCapture;
+                this.keyCapture = null;
+                keyCapture(event.key);
+                event.preventDefault();
+                return;
+            }
+
+            const action = this.keyBindings.getAction(event.key);
+            if(action && handleAction(action)) {
+                event.preventDefault();
+            }
+        });
+    }
+
+    /**
+     * Pass the next key pressed to the callback rather than performing its action.
+     */
+    captureNextKey(keyCapture: (key: string) => void) {
+        this.keyCapture = keyCapture;
+    }
+
+    /**
+     * Stop waiting for a key to capture.
+     */
+    cancelCapture() {
+        this.keyCapture = null;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * Touch input source, for playing on tablets and phones. Swiping turns the skier in the direction of the swipe, a tap
+ * jumps, a two finger tap pauses and a long press resets the game.
+ */
+
+import { ACTIONS } from "../../Constants";
+import { ActionHandler, iInputSource } from "../../Interfaces/iInputSource";
+
+/**
+ * How far a touch has to move, in pixels, before it counts as a swipe rather than a tap.
+ */
+const SWIPE_THRESHOLD: number = 30;
+
+/**
+ * How long a touch has to be held without moving to count as a long press.
+ */
+const LONG_PRESS_MS: number = 800;
+
+export class TouchInput implements iInputSource {
+    private handleAction: ActionHandler | null = null;
+
+    /**
+     * Where and when the current touch started
+     */
+    private startX: number = 0;
+    private startY: number = 0;
+    private startTime: number = 0;
+
+    /**
+     * The most fingers that have been down at once during the current touch
+     */
+    private touchCount: number = 0;
+
+    attach(handleAction: ActionHandler) {
+        this.handleAction = handleAction;
+
+        document.addEventListener('touchstart', this.handleTouchStart.bind(this), { passive: false });
+        document.addEventListener('touchend', this.handleTouchEnd.bind(this), { passive: false });
+    }
+
+    handleTouchStart(event: TouchEvent) {
+        event.preventDefault();
+
+        if(event.touches.length === 1) {
+            const touch = event.touches[0];
+            this.startX = touch.clientX;
+            this.startY = touch.clientY;
+            this.startTime = event.timeStamp;
+            this.touchCount = 0;
+        }
+
+        this.touchCount = Math.max(this.touchCount, event.touches.length);
+    }
+
+    /**
+     * Once the last finger is lifted, work out which gesture was made and fire its action.
+     */
+    handleTouchEnd(event: TouchEvent) {
+        event.preventDefault();
+        if(event.touches.length) {
+            return;
+        }
+
+        const touch = event.changedTouches[0];
+        const action = this.getGestureAction(
+            touch.clientX - this.startX,
+            touch.clientY - this.startY,
+            event.timeStamp - this.startTime
+        );
+
+        if(action && this.handleAction) {
+            this.handleAction(action);
+        }
+    }
+
+    /**
+     * Swipes are decided by whichever direction moved further. Touches that didn't move far enough are taps.
+     */
+    getGestureAction(deltaX: number, deltaY: number, duration: number): ACTIONS | null {
+        const isSwipe = Math.max(Math.abs(deltaX), Math.abs(deltaY)) >= SWIPE_THRESHOLD;
+
+        if(!isSwipe) {
+            if(this.touchCount > 1) {
+                return ACTIONS.PAUSE;
+            }
+
+            return duration >= LONG_PRESS_MS ? ACTIONS.RESET : ACTIONS.JUMP;
+        }
+
+        if(Math.abs(deltaX) > Math.abs(deltaY)) {
+            return deltaX < 0 ? ACTIONS.TURN_LEFT : ACTIONS.TURN_RIGHT;
+        }
+
+        return deltaY < 0 ? ACTIONS.UP : ACTIONS.DOWN;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+/**
+ * A canvas that doesn't draw anything. Used in place of the HTML Canvas to run the game without a DOM, such as under
+ * Node or jest. It still has a size, which stands in for the viewport the game world is laid out against, and keeps
+ * track of the camera transform in case anything wants to know what would be on screen.
+ */
+
+import { iSprite } from '../Interfaces/iSprite';
+import { BaseRenderer } from './BaseRenderer';
+import { Position } from './Utils';
+
+export class NullCanvas extends BaseRenderer {
+    clearCanvas() {
+
+    }
+
+    drawSprite(sprite: iSprite, x: number, y: number, width: number, height: number) {
+
+    }
+
+    drawText(text: string, x: number, y: number, font: string) {
+
+    }
+
+    drawRect(x: number, y: number, width: number, height: number, color?: string) {
+
+    }
+
+    drawPolygon(points: Position[], color?: string) {
+
+    }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * A simple pool of reusable objects. Objects that are no longer needed are released back into the pool and handed out
+ * again instead of allocating new ones, which keeps memory flat for objects that are created and thrown away
+ * constantly.
+ */
+
+export class ObjectPool<T> {
+    /**
+     * Objects that have been released and are waiting to be reused
+     */
+    private readonly available: T[] = [];
+
+    /**
+     * Creates a brand new object when the pool is empty
+     */
+    private readonly create: () => T;
+
+    constructor(create: () => T) {
+        this.create = create;
+    }
+
+    /**
+     * Get an object from the pool, creating a new one if there aren't any available. Acquired objects must be reset by
+     * the caller, as they may still hold state from their previous use.
+     */
+    acquire(): T {
+        const pooledObject = this.available.pop();
+        if(pooledObject !== undefined) {
+            return pooledObject;
+        }
+
+        return this.create();
+    }
+
+    /**
+     * Return an object to the pool so it can be reused.
+     */
+    release(pooledObject: T) {
+        this.available.push(pooledObject);
+    }
+
+    /**
+     * The number of objects waiting to be reused
+     */
+    getAvailableCount(): number {
+        return this.available.length;
+    }
+}
\ No newline at end of file
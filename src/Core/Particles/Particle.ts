@@ -0,0 +1,80 @@
+/**
+ * A single particle. Particles live in world coordinates, so they stay where they were emitted as the game window
+ * scrolls past. They're pooled and reused, so everything about a particle is set when it's emitted.
+ */
+
+import { iParticleEffect } from "../../Interfaces/iParticleEffect";
+import { iRenderer } from "../../Interfaces/iRenderer";
+
+export class Particle {
+    x: number = 0;
+    y: number = 0;
+
+    /**
+     * How fast the particle is moving, in world units per second
+     */
+    velocityX: number = 0;
+    velocityY: number = 0;
+
+    /**
+     * How long the particle has existed for, in ms
+     */
+    age: number = 0;
+
+    /**
+     * The effect the particle was emitted as, which decides how it looks over its lifetime
+     */
+    effect!: iParticleEffect;
+
+    /**
+     * Set the particle off from a position as part of an effect.
+     */
+    emit(x: number, y: number, velocityX: number, velocityY: number, effect: iParticleEffect) {
+        this.x = x;
+        this.y = y;
+        this.velocityX = velocityX;
+        this.velocityY = velocityY;
+        this.age = 0;
+        this.effect = effect;
+    }
+
+    /**
+     * Has the particle outlived its effect's lifetime
+     */
+    isExpired(): boolean {
+        return this.age >= this.effect.lifetime;
+    }
+
+    /**
+     * Move the particle on by the time given, slowing it down by its effect's drag.
+     */
+    update(stepMs: number) {
+        const stepSeconds = stepMs / 1000;
+
+        this.age += stepMs;
+        this.x += this.velocityX * stepSeconds;
+        this.y += this.velocityY * stepSeconds;
+
+        const dragFactor = Math.pow(this.effect.drag, stepSeconds);
+        this.velocityX *= dragFactor;
+        this.velocityY *= dragFactor;
+    }
+
+    /**
+     * Draw the particle as a square, sized and faded by how far through its lifetime it is.
+     */
+    draw(canvas: iRenderer) {
+        const progress = Math.min(1, this.age / this.effect.lifetime);
+        const size = this.effect.startSize + (this.effect.endSize - this.effect.startSize) * progress;
+        const opacity = this.effect.opacity * (1 - progress);
+        const screenPosition = canvas.worldToScreen(this.x - size / 2, this.y - size / 2);
+
+        canvas.drawRect(
+            screenPosition.x,
+            screenPosition.y,
+            size * canvas.zoom,
+            size * canvas.zoom,
+            `rgba(${this.effect.color}, ${opacity})`
+        );
+    }
+}
\ No newline at end of file
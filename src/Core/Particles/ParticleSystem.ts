@@ -0,0 +1,102 @@
+/**
+ * A lightweight particle system that entities emit visual effects into, such as snow spray and ski trails. Particles
+ * are purely visual: they're moved with the simulation so they look the same in a replay, but they have their own
+ * random source, so they never change how the world is generated. The number of live particles is capped, and
+ * particles are pooled so emitting them doesn't allocate once the pool has warmed up.
+ */
+
+import { iRenderer } from "../../Interfaces/iRenderer";
+import { iParticleEffect } from "../../Interfaces/iParticleEffect";
+import { ObjectPool } from "../ObjectPool";
+import { Random } from "../Random";
+import { Position } from "../Utils";
+import { Particle } from "./Particle";
+
+/**
+ * The most particles that can be alive at once. Anything emitted past this is dropped.
+ */
+const MAX_PARTICLES: number = 400;
+
+export class ParticleSystem {
+    /**
+     * Every particle that's currently alive, oldest first
+     */
+    particles: Particle[] = [];
+
+    particlePool: ObjectPool<Particle> = new ObjectPool<Particle>(() => new Particle());
+
+    /**
+     * Picks where each particle goes. Separate from the world's random source.
+     */
+    random: Random;
+
+    canvas: iRenderer;
+
+    constructor(canvas: iRenderer, seed: number) {
+        this.canvas = canvas;
+        this.random = new Random(seed);
+    }
+
+    getParticleCount(): number {
+        return this.particles.length;
+    }
+
+    /**
+     * Emit an effect's particles from a position in the world, each thrown off in a random direction and speed within
+     * the effect's ranges. Stops emitting once the cap on live particles is reached.
+     */
+    emit(position: Position, effect: iParticleEffect) {
+        for(let i = 0; i < effect.count && this.particles.length < MAX_PARTICLES; i++) {
+            const angle = effect.direction + (this.random.next() * 2 - 1) * effect.spread;
+            const speed = effect.minSpeed + this.random.next() * (effect.maxSpeed - effect.minSpeed);
+            const x = position.x + (this.random.next() * 2 - 1) * effect.scatter;
+            const y = position.y + (this.random.next() * 2 - 1) * effect.scatter;
+
+            const particle = this.particlePool.acquire();
+            particle.emit(x, y, Math.cos(angle) * speed, Math.sin(angle) * speed, effect);
+            this.particles.push(particle);
+        }
+    }
+
+    /**
+     * Move every particle on by a simulation step and release the ones that have expired back to the pool. The live
+     * particles are compacted in place, keeping their order, so stepping doesn't allocate a new array.
+     */
+    update(stepMs: number) {
+        let liveCount = 0;
+
+        for(const particle of this.particles) {
+            particle.update(stepMs);
+            if(particle.isExpired()) {
+                this.particlePool.release(particle);
+            }
+            else {
+                this.particles[liveCount++] = particle;
+            }
+        }
+
+        this.particles.length = liveCount;
+    }
+
+    /**
+     * Draw the particles that are on screen.
+     */
+    draw() {
+        const visibleArea = this.canvas.getVisibleArea();
+
+        this.particles.forEach((particle: Particle) => {
+            if(particle.x >= visibleArea.left && particle.x <= visibleArea.right &&
+                particle.y >= visibleArea.top && particle.y <= visibleArea.bottom) {
+                particle.draw(this.canvas);
+            }
+        });
+    }
+
+    /**
+     * Remove every particle, e.g. when the world is rebuilt.
+     */
+    clear() {
+        this.particles.forEach((particle: Particle) => this.particlePool.release(particle));
+        this.particles = [];
+    }
+}
\ No newline at end of file
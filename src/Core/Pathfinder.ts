@@ -0,0 +1,242 @@
+/**
+ * Grid based A* pathfinding. The area around the start of the search is split into square cells and the shortest path
+ * between free cells is found, moving in eight directions. Whether a cell is free is decided by the caller, and only
+ * checked for the cells the search actually reaches. If the goal can't be reached, the path leads to the reachable
+ * cell closest to it instead.
+ */
+
+import { Position, Rect } from "./Utils";
+
+/**
+ * The cost of moving to a neighbouring cell diagonally, relative to moving straight.
+ */
+const DIAGONAL_COST: number = Math.SQRT2;
+
+/**
+ * The eight neighbours of a cell, as column and row offsets.
+ */
+const NEIGHBOUR_OFFSETS: number[][] = [
+    [-1, -1], [0, -1], [1, -1],
+    [-1, 0], [1, 0],
+    [-1, 1], [0, 1], [1, 1]
+];
+
+/**
+ * The states of a cell's blocked check, which is worked out the first time the search reaches the cell.
+ */
+const CELL_UNCHECKED: number = 0;
+const CELL_FREE: number = 1;
+const CELL_BLOCKED: number = 2;
+
+export class Pathfinder {
+    /**
+     * The width and height of each cell in world units
+     */
+    private readonly cellSize: number;
+
+    /**
+     * How many cells the search can go out from the start in any direction
+     */
+    private readonly searchRadius: number;
+
+    /**
+     * Decides whether the area of a cell can be passed through
+     */
+    private readonly isBlocked: (area: Rect) => boolean;
+
+    constructor(cellSize: number, searchRadius: number, isBlocked: (area: Rect) => boolean) {
+        this.cellSize = cellSize;
+        this.searchRadius = searchRadius;
+        this.isBlocked = isBlocked;
+    }
+
+    /**
+     * Find a path from the start to the goal, as a list of positions to head for in turn, ending at the goal. The goal
+     * is clamped to the search area. If the goal can't be reached, the path ends at the closest cell that can be.
+     */
+    findPath(start: Position, goal: Position): Position[] {
+        const size = this.searchRadius * 2 + 1;
+        const originColumn = Math.floor(start.x / this.cellSize) - this.searchRadius;
+        const originRow = Math.floor(start.y / this.cellSize) - this.searchRadius;
+
+        const toIndex = (column: number, row: number) => row * size + column;
+        const clampCell = (value: number) => Math.max(0, Math.min(size - 1, value));
+
+        const startIndex = toIndex(this.searchRadius, this.searchRadius);
+        const goalColumn = clampCell(Math.floor(goal.x / this.cellSize) - originColumn);
+        const goalRow = clampCell(Math.floor(goal.y / this.cellSize) - originRow);
+        const goalIndex = toIndex(goalColumn, goalRow);
+
+        const heuristic = (index: number) => {
+            const columnDistance = Math.abs(index % size - goalColumn);
+            const rowDistance = Math.abs(Math.floor(index / size) - goalRow);
+            return Math.max(columnDistance, rowDistance) +
+                (DIAGONAL_COST - 1) * Math.min(columnDistance, rowDistance);
+        };
+
+        const cellStates = new Uint8Array(size * size);
+        const costs = new Float64Array(size * size).fill(Infinity);
+        const cameFrom = new Int32Array(size * size).fill(-1);
+        const closed = new Uint8Array(size * size);
+        const open = new MinHeap();
+
+        // The start and goal cells are where the search comes from and goes to, so they're never treated as blocked
+        cellStates[startIndex] = CELL_FREE;
+        cellStates[goalIndex] = CELL_FREE;
+        costs[startIndex] = 0;
+        open.push(startIndex, heuristic(startIndex));
+
+        let closestIndex = startIndex;
+        let closestDistance = heuristic(startIndex);
+
+        while(open.size()) {
+            const index = open.pop();
+            if(closed[index]) {
+                continue;
+            }
+            closed[index] = 1;
+
+            const distance = heuristic(index);
+            if(distance < closestDistance) {
+                closestIndex = index;
+                closestDistance = distance;
+            }
+
+            if(index === goalIndex) {
+                break;
+            }
+
+            const column = index % size;
+            const row = Math.floor(index / size);
+
+            for(const [columnOffset, rowOffset] of NEIGHBOUR_OFFSETS) {
+                const neighbourColumn = column + columnOffset;
+                const neighbourRow = row + rowOffset;
+                if(neighbourColumn < 0 || neighbourColumn >= size || neighbourRow < 0 || neighbourRow >= size) {
+                    continue;
+                }
+
+                const neighbourIndex = toIndex(neighbourColumn, neighbourRow);
+                if(closed[neighbourIndex] || !this.isCellFree(cellStates, neighbourIndex, size, originColumn, originRow)) {
+                    continue;
+                }
+
+                const isDiagonal = columnOffset !== 0 && rowOffset !== 0;
+                if(isDiagonal) {
+                    // Don't cut the corner of a blocked cell when moving diagonally
+                    const besideIndex = toIndex(neighbourColumn, row);
+                    const belowIndex = toIndex(column, neighbourRow);
+                    if(!this.isCellFree(cellStates, besideIndex, size, originColumn, originRow) ||
+                        !this.isCellFree(cellStates, belowIndex, size, originColumn, originRow)) {
+                        continue;
+                    }
+                }
+
+                const cost = costs[index] + (isDiagonal ? DIAGONAL_COST : 1);
+                if(cost < costs[neighbourIndex]) {
+                    costs[neighbourIndex] = cost;
+                    cameFrom[neighbourIndex] = index;
+                    open.push(neighbourIndex, cost + heuristic(neighbourIndex));
+                }
+            }
+        }
+
+        const path: Position[] = [];
+        for(let index = closestIndex; index !== startIndex; index = cameFrom[index]) {
+            path.unshift(new Position(
+                (originColumn + index % size + 0.5) * this.cellSize,
+                (originRow + Math.floor(index / size) + 0.5) * this.cellSize
+            ));
+        }
+
+        if(closestIndex === goalIndex && path.length) {
+            path[path.length - 1] = new Position(goal.x, goal.y);
+        }
+
+        return path;
+    }
+
+    /**
+     * Is the cell free to pass through, checking it the first time it's asked about.
+     */
+    private isCellFree(cellStates: Uint8Array, index: number, size: number, originColumn: number, originRow: number): boolean {
+        if(cellStates[index] === CELL_UNCHECKED) {
+            const left = (originColumn + index % size) * this.cellSize;
+            const top = (originRow + Math.floor(index / size)) * this.cellSize;
+            const area = new Rect(left, top, left + this.cellSize, top + this.cellSize);
+
+            cellStates[index] = this.isBlocked(area) ? CELL_BLOCKED : CELL_FREE;
+        }
+
+        return cellStates[index] === CELL_FREE;
+    }
+}
+
+/**
+ * A binary min heap of cell indexes, ordered by priority. Used as the A* open set.
+ */
+class MinHeap {
+    private readonly indexes: number[] = [];
+    private readonly priorities: number[] = [];
+
+    size(): number {
+        return this.indexes.length;
+    }
+
+    push(index: number, priority: number) {
+        this.indexes.push(index);
+        this.priorities.push(priority);
+
+        let child = this.indexes.length - 1;
+        while(child > 0) {
+            const parent = (child - 1) >> 1;
+            if(this.priorities[parent] <= this.priorities[child]) {
+                break;
+            }
+
+            this.swap(parent, child);
+            child = parent;
+        }
+    }
+
+    /**
+     * Remove and return the index with the lowest priority
+     */
+    pop(): number {
+        const top = this.indexes[0];
+        const lastIndex = this.indexes.pop() as number;
+        const lastPriority = this.priorities.pop() as number;
+
+        if(this.indexes.length) {
+            this.indexes[0] = lastIndex;
+            this.priorities[0] = lastPriority;
+
+            let parent = 0;
+            while(true) {
+                const left = parent * 2 + 1;
+                const right = left + 1;
+                let smallest = parent;
+
+                if(left < this.indexes.length && this.priorities[left] < this.priorities[smallest]) {
+                    smallest = left;
+                }
+                if(right < this.indexes.length && this.priorities[right] < this.priorities[smallest]) {
+                    smallest = right;
+                }
+                if(smallest === parent) {
+                    break;
+                }
+
+                this.swap(parent, smallest);
+                parent = smallest;
+            }
+        }
+
+        return top;
+    }
+
+    private swap(a: number, b: number) {
+        [this.indexes[a], this.indexes[b]] = [this.indexes[b], this.indexes[a]];
+        [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+    }
+}
\ No newline at end of file
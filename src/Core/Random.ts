@@ -0,0 +1,90 @@
+/**
+ * A small seedable pseudo random number generator (mulberry32). All randomness in the game world goes through an
+ * instance of this class so that a run can be reproduced exactly by starting it again with the same seed.
+ */
+
+/**
+ * Seeds are kept as unsigned 32 bit integers, so anything passed in is clamped into that range.
+ */
+const MAX_SEED: number = 0xFFFFFFFF;
+
+export class Random {
+    /**
+     * The seed the generator was created with. Kept so it can be displayed and shared.
+     */
+    private readonly seed: number;
+
+    /**
+     * The internal state of the generator, advanced every time a number is generated.
+     */
+    private state: number;
+
+    constructor(seed: number) {
+        this.seed = normalizeSeed(seed);
+        this.state = this.seed;
+    }
+
+    getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * Return a random float in the range [0, 1), the same as Math.random().
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) | 0;
+
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Return a random integer between min and max, inclusive of both.
+     */
+    randomInt(min: number, max: number): number {
+        min = Math.ceil(min);
+        max = Math.floor(max);
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+}
+
+/**
+ * Clamp any number into a valid unsigned 32 bit seed.
+ */
+export function normalizeSeed(seed: number): number {
+    return Math.abs(Math.floor(seed)) % MAX_SEED;
+}
+
+/**
+ * Pick a brand new seed for a run. This is the only place Math.random() should be used in the game.
+ */
+export function generateSeed(): number {
+    return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Choose the seed for a new run: the seed in the page URL if there is one, otherwise a brand new seed.
+ */
+export function chooseSeed(search: string): number {
+    return getSeedFromUrl(search) ?? generateSeed();
+}
+
+/**
+ * Read the seed for this run from the page URL (e.g. ?seed=1234). Returns null if there isn't a valid one.
+ */
+export function getSeedFromUrl(search: string): number | null {
+    const seedParam = new URLSearchParams(search).get('seed');
+    if(seedParam === null || seedParam.trim() === '') {
+        return null;
+    }
+
+    const seed = Number(seedParam);
+    if(!isFinite(seed)) {
+        return null;
+    }
+
+    return normalizeSeed(seed);
+}
\ No newline at end of file
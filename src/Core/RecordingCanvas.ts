@@ -0,0 +1,49 @@
+/**
+ * A canvas that doesn't draw anything, but logs every draw call made to it instead. Like the null canvas, it runs
+ * without a DOM, so the game can be rendered headless and a frame compared against a snapshot in tests. Clearing the
+ * canvas starts a new log, so after a frame is rendered the log holds exactly what that frame drew.
+ */
+
+import { iDrawCall } from '../Interfaces/iDrawCall';
+import { iSprite } from '../Interfaces/iSprite';
+import { BaseRenderer, DEFAULT_COLOR } from './BaseRenderer';
+import { Position } from './Utils';
+
+export class RecordingCanvas extends BaseRenderer {
+    /**
+     * Every draw call since the canvas was last cleared, in the order they were made
+     */
+    drawCalls: iDrawCall[] = [];
+
+    getDrawCalls(): iDrawCall[] {
+        return this.drawCalls;
+    }
+
+    clearCanvas() {
+        this.drawCalls = [{ method: 'clearCanvas', args: [] }];
+    }
+
+    drawSprite(sprite: iSprite, x: number, y: number, width: number, height: number) {
+        const screenPosition = this.worldToScreen(x, y);
+        this.drawCalls.push({
+            method: 'drawSprite',
+            args: [sprite.name, screenPosition.x, screenPosition.y, width * this.zoom, height * this.zoom]
+        });
+    }
+
+    drawText(text: string, x: number, y: number, font: string) {
+        this.drawCalls.push({ method: 'drawText', args: [text, x, y, font] });
+    }
+
+    drawRect(x: number, y: number, width: number, height: number, color: string = DEFAULT_COLOR) {
+        this.drawCalls.push({ method: 'drawRect', args: [x, y, width, height, color] });
+    }
+
+    drawPolygon(points: Position[], color: string = DEFAULT_COLOR) {
+        const args: (string | number)[] = [];
+        points.forEach((point: Position) => args.push(point.x, point.y));
+        args.push(color);
+
+        this.drawCalls.push({ method: 'drawPolygon', args });
+    }
+}
\ No newline at end of file
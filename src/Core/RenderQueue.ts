@@ -0,0 +1,38 @@
+/**
+ * Collects everything to be drawn in a frame and then draws it in the right order: layer by layer from the ground up,
+ * and within a layer in order of each command's sort key. Commands with the same layer and sort key are drawn in the
+ * order they were submitted, so things like HUD text keep the order they're written in.
+ */
+
+import { RENDER_LAYERS } from "../Constants";
+import { iRenderCommand } from "../Interfaces/iRenderCommand";
+
+export class RenderQueue {
+    /**
+     * Everything submitted since the queue was last flushed, in the order it was submitted
+     */
+    private commands: iRenderCommand[] = [];
+
+    /**
+     * Queue something to be drawn in the given layer, sorted within the layer by the sort key.
+     */
+    submit(layer: RENDER_LAYERS, sortKey: number, draw: () => void) {
+        this.commands.push({ layer, sortKey, draw });
+    }
+
+    getCommandCount(): number {
+        return this.commands.length;
+    }
+
+    /**
+     * Draw everything that's been submitted, in order, and empty the queue ready for the next frame.
+     */
+    flush() {
+        this.commands.sort((command1: iRenderCommand, command2: iRenderCommand) => {
+            return (command1.layer - command2.layer) || (command1.sortKey - command2.sortKey);
+        });
+
+        this.commands.forEach((command: iRenderCommand) => command.draw());
+        this.commands = [];
+    }
+}
\ No newline at end of file
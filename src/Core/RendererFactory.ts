@@ -0,0 +1,18 @@
+/**
+ * Creates the renderer the game is drawn with. WebGL is used if the browser supports it, unless the page is opened with
+ * ?renderer=canvas, which forces the 2D canvas.
+ */
+
+import { RENDERER_TYPES } from "../Constants";
+import { iRenderer } from "../Interfaces/iRenderer";
+import { Canvas } from "./Canvas";
+import { WebGLCanvas } from "./WebGLCanvas";
+
+export function createRenderer(canvasId: string, width: number, height: number, search: string): iRenderer {
+    const requestedType = new URLSearchParams(search).get('renderer');
+    if(requestedType !== RENDERER_TYPES.CANVAS_2D && WebGLCanvas.isSupported()) {
+        return new WebGLCanvas(canvasId, width, height);
+    }
+
+    return new Canvas(canvasId, width, height);
+}
\ No newline at end of file
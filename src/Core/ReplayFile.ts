@@ -0,0 +1,104 @@
+/**
+ * Reading and writing replay files. Replays are plain JSON. A replay dropped onto the page is handed over to the next
+ * page load through session storage, the same way the game is reset by reloading the page.
+ */
+
+import { ACTIONS, GAME_MODES } from "../Constants";
+import { iReplay, ReplayInput, ReplayResize } from "../Interfaces/iReplay";
+import { validateCourse } from "./CourseFile";
+
+/**
+ * Bumped whenever the replay format changes, so old replays can be rejected rather than played back incorrectly.
+ */
+export const REPLAY_VERSION: number = 3;
+
+/**
+ * The session storage key a replay waiting to be played is stored under.
+ */
+const PENDING_REPLAY_KEY: string = 'cerosSkiPendingReplay';
+
+/**
+ * Parse and validate a replay file, throwing an error if it isn't a replay this version of the game can play.
+ */
+export function parseReplay(json: string): iReplay {
+    const replay = JSON.parse(json);
+
+    if(!replay || replay.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version, expected version ${REPLAY_VERSION}`);
+    }
+
+    const numberFields: string[] = ['seed', 'width', 'height', 'steps'];
+    for(const field of numberFields) {
+        if(typeof replay[field] !== 'number') {
+            throw new Error(`Replay is missing the ${field} field`);
+        }
+    }
+
+    const actions: string[] = Object.values(ACTIONS);
+    const validInputs = Array.isArray(replay.inputs) && replay.inputs.every((input: ReplayInput) => {
+        return Array.isArray(input) && typeof input[0] === 'number' && actions.includes(input[1]);
+    });
+    if(!validInputs) {
+        throw new Error('Replay inputs are invalid');
+    }
+
+    const validResizes = replay.resizes === undefined || (Array.isArray(replay.resizes) &&
+        replay.resizes.every((resize: ReplayResize) => {
+            return Array.isArray(resize) && resize.length === 3 &&
+                resize.every((value: number) => typeof value === 'number');
+        }));
+    if(!validResizes) {
+        throw new Error('Replay resizes are invalid');
+    }
+
+    const modes: string[] = Object.values(GAME_MODES);
+    if(replay.mode !== undefined && !modes.includes(replay.mode)) {
+        throw new Error('Replay mode is invalid');
+    }
+
+    if(replay.course !== undefined) {
+        validateCourse(replay.course);
+    }
+
+    return replay;
+}
+
+/**
+ * Save a replay as a JSON file through the browser's download mechanism.
+ */
+export function downloadReplay(replay: iReplay) {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ceros-ski-replay-${replay.seed}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Store a replay to be played once the page reloads.
+ */
+export function storePendingReplay(replay: iReplay) {
+    sessionStorage.setItem(PENDING_REPLAY_KEY, JSON.stringify(replay));
+}
+
+/**
+ * Return the replay waiting to be played, if there is one, and clear it so that reloading goes back to a normal game.
+ */
+export function takePendingReplay(): iReplay | null {
+    const json = sessionStorage.getItem(PENDING_REPLAY_KEY);
+    sessionStorage.removeItem(PENDING_REPLAY_KEY);
+    if(!json) {
+        return null;
+    }
+
+    try {
+        return parseReplay(json);
+    } catch(error) {
+        console.error(error);
+        return null;
+    }
+}
@@ -0,0 +1,253 @@
+/**
+ * Plays a recorded replay back by rebuilding the world from the replay's seed and feeding each recorded input into the
+ * game on the simulation step it was recorded on. Since the simulation is deterministic, the run plays out exactly as
+ * it was recorded. The world is laid out against the viewport, so the canvas is resized along with the recorded
+ * viewport rather than with the browser window. Playback can be paused, seeked and sped up or slowed down.
+ */
+
+import { ACTIONS, MAX_FRAME_TIME_MS, SIMULATION_STEP_MS } from "../Constants";
+import { iRenderer } from "../Interfaces/iRenderer";
+import { iReplay } from "../Interfaces/iReplay";
+import { Game } from "./Game";
+import { GamepadInput } from "./Input/GamepadInput";
+import { InputManager } from "./Input/InputManager";
+import { KeyBindings } from "./Input/KeyBindings";
+import { KeyboardInput } from "./Input/KeyboardInput";
+import { TouchInput } from "./Input/TouchInput";
+
+/**
+ * The playback speeds that can be stepped through, as multiples of normal speed.
+ */
+const PLAYBACK_RATES: number[] = [0.5, 1, 2, 4];
+const DEFAULT_PLAYBACK_RATE_INDEX: number = 1;
+
+/**
+ * How far a single seek jumps forwards or backwards, in simulation steps. Equal to five seconds of game time.
+ */
+const SEEK_STEPS: number = Math.round(5000 / SIMULATION_STEP_MS);
+
+/**
+ * The screen coordinates of the replay controls, drawn along the bottom of the screen.
+ */
+const REPLAY_TEXT_X: number = 30;
+const REPLAY_STATUS_OFFSET_Y: number = 60;
+const REPLAY_CONTROLS_OFFSET_Y: number = 30;
+const REPLAY_TEXT_FONT: string = 'bold 20px monospace';
+
+export class ReplayPlayer {
+    /**
+     * The game the replay is played back in
+     */
+    private readonly game: Game;
+
+    /**
+     * The canvas the game is displayed on, used to draw the replay controls
+     */
+    private readonly canvas: iRenderer;
+
+    private readonly replay: iReplay;
+
+    /**
+     * Index of the next recorded input to be fed into the game
+     */
+    private nextInputIndex: number = 0;
+
+    /**
+     * Index of the next recorded viewport resize to be applied to the game
+     */
+    private nextResizeIndex: number = 0;
+
+    private playing: boolean = true;
+
+    private playbackRateIndex: number = DEFAULT_PLAYBACK_RATE_INDEX;
+
+    /**
+     * Real time that has passed, scaled by the playback rate, that hasn't been simulated yet.
+     */
+    private accumulatedTime: number = 0;
+
+    /**
+     * Timestamp of the previous rendered frame, or null if playback has just (re)started.
+     */
+    private lastFrameTime: number | null = null;
+
+    /**
+     * The player's key bindings, so the playback controls use the same keys as the game
+     */
+    private readonly keyBindings: KeyBindings = new KeyBindings();
+
+    constructor(game: Game, canvas: iRenderer, replay: iReplay) {
+        this.game = game;
+        this.canvas = canvas;
+        this.replay = replay;
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    isFinished(): boolean {
+        return this.game.getCurrentStep() >= this.replay.steps;
+    }
+
+    getPlaybackRate(): number {
+        return PLAYBACK_RATES[this.playbackRateIndex];
+    }
+
+    /**
+     * Setup the input sources for the playback controls. These replace the game's own input handling.
+     */
+    setupInputHandling() {
+        const inputManager = new InputManager(this.handleInput.bind(this));
+        inputManager.addSource(new KeyboardInput(this.keyBindings));
+        inputManager.addSource(new GamepadInput());
+        inputManager.addSource(new TouchInput());
+    }
+
+    /**
+     * Handle the player's actions as playback controls.
+     */
+    handleInput(action: ACTIONS): boolean {
+        let handled: boolean = true;
+
+        switch(action) {
+            case ACTIONS.PAUSE:
+                this.playOrPause();
+                break;
+            case ACTIONS.TURN_LEFT:
+                this.seek(this.game.getCurrentStep() - SEEK_STEPS);
+                break;
+            case ACTIONS.TURN_RIGHT:
+                this.seek(this.game.getCurrentStep() + SEEK_STEPS);
+                break;
+            case ACTIONS.UP:
+                this.changePlaybackRate(1);
+                break;
+            case ACTIONS.DOWN:
+                this.changePlaybackRate(-1);
+                break;
+            case ACTIONS.RESET:
+                this.exit();
+                break;
+            case ACTIONS.MUTE:
+                this.game.toggleMute();
+                break;
+            default:
+                handled = false;
+        }
+
+        return handled;
+    }
+
+    playOrPause() {
+        this.playing = !this.playing;
+        this.lastFrameTime = null;
+    }
+
+    /**
+     * Step to the next or previous playback rate, staying within the available rates.
+     */
+    changePlaybackRate(direction: number) {
+        const newIndex = this.playbackRateIndex + direction;
+        this.playbackRateIndex = Math.max(0, Math.min(PLAYBACK_RATES.length - 1, newIndex));
+    }
+
+    /**
+     * Jump to the given simulation step. The simulation can only go forwards, so seeking backwards rebuilds the world
+     * from the seed and simulates up to the target step again. Sound effects are held back while skipping ahead.
+     */
+    seek(targetStep: number) {
+        targetStep = Math.max(0, Math.min(this.replay.steps, targetStep));
+
+        if(targetStep < this.game.getCurrentStep()) {
+            this.canvas.resize(this.replay.width, this.replay.height);
+            this.game.init(this.replay.seed, this.replay.course ?? null, this.replay.mode);
+            this.nextInputIndex = 0;
+            this.nextResizeIndex = 0;
+        }
+
+        this.game.silenceSoundEffects(true);
+        while(this.game.getCurrentStep() < targetStep) {
+            this.stepReplay();
+        }
+        this.game.silenceSoundEffects(false);
+
+        this.accumulatedTime = 0;
+    }
+
+    /**
+     * Leave the replay by reloading the page, which starts a normal game.
+     */
+    exit() {
+        location.reload();
+    }
+
+    /**
+     * Apply the viewport resizes and feed in the inputs recorded for the current simulation step and then run that step.
+     */
+    stepReplay() {
+        const resizes = this.replay.resizes ?? [];
+        const inputs = this.replay.inputs;
+        const currentStep = this.game.getCurrentStep();
+
+        while(this.nextResizeIndex < resizes.length && resizes[this.nextResizeIndex][0] <= currentStep) {
+            const [, width, height] = resizes[this.nextResizeIndex];
+            this.game.applyResize(width, height);
+            this.nextResizeIndex++;
+        }
+
+        while(this.nextInputIndex < inputs.length && inputs[this.nextInputIndex][0] <= currentStep) {
+            this.game.applyReplayInput(inputs[this.nextInputIndex][1]);
+            this.nextInputIndex++;
+        }
+
+        this.game.step();
+    }
+
+    /**
+     * Start the playback loop.
+     */
+    run() {
+        this.lastFrameTime = null;
+        requestAnimationFrame(this.runFrame.bind(this));
+    }
+
+    /**
+     * The playback loop. Works the same way as the game loop, except elapsed time is scaled by the playback rate and
+     * the simulation stops at the end of the replay.
+     */
+    runFrame(frameTime: number) {
+        if(this.playing && !this.isFinished()) {
+            if(this.lastFrameTime !== null) {
+                const frameDuration = Math.min(frameTime - this.lastFrameTime, MAX_FRAME_TIME_MS);
+                this.accumulatedTime += frameDuration * this.getPlaybackRate();
+            }
+            this.lastFrameTime = frameTime;
+
+            while(this.accumulatedTime >= SIMULATION_STEP_MS && !this.isFinished()) {
+                this.stepReplay();
+                this.accumulatedTime -= SIMULATION_STEP_MS;
+            }
+        }
+
+        const alpha = (this.playing && !this.isFinished()) ? this.accumulatedTime / SIMULATION_STEP_MS : 1;
+        this.game.render(alpha);
+        this.drawReplayControls();
+        this.canvas.flush();
+
+        requestAnimationFrame(this.runFrame.bind(this));
+    }
+
+    /**
+     * Draw the playback status and controls along the bottom of the screen.
+     */
+    drawReplayControls() {
+        const status = this.isFinished() ? 'finished' : (this.playing ? 'playing' : 'paused');
+        const statusText = `Replay ${status} at ${this.getPlaybackRate()}x - step ${this.game.getCurrentStep()}/${this.replay.steps}`;
+        const controlsText = `${this.keyBindings.getKeyLabel(ACTIONS.PAUSE)}: play/pause, left/right: seek, up/down: speed, ` +
+            `${this.keyBindings.getKeyLabel(ACTIONS.RESET)}: exit replay`;
+
+        this.canvas.drawText(statusText, REPLAY_TEXT_X, this.canvas.height - REPLAY_STATUS_OFFSET_Y, REPLAY_TEXT_FONT);
+        this.canvas.drawText(controlsText, REPLAY_TEXT_X, this.canvas.height - REPLAY_CONTROLS_OFFSET_Y, REPLAY_TEXT_FONT);
+    }
+}
\ No newline at end of file
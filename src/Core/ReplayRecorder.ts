@@ -0,0 +1,98 @@
+/**
+ * Records the inputs and viewport resizes that affect the simulation, along with the simulation step they arrived on,
+ * so that a run can be saved as a replay and played back exactly.
+ */
+
+import { ACTIONS, GAME_MODES } from "../Constants";
+import { iCourse } from "../Interfaces/iCourse";
+import { iReplay, ReplayInput, ReplayResize } from "../Interfaces/iReplay";
+import { REPLAY_VERSION } from "./ReplayFile";
+
+export class ReplayRecorder {
+    /**
+     * The seed the recorded world was generated from
+     */
+    private readonly seed: number;
+
+    /**
+     * The viewport size the recorded world was first laid out against
+     */
+    private readonly width: number;
+    private readonly height: number;
+
+    /**
+     * The handcrafted course the run is on, if it isn't a generated world
+     */
+    private readonly course: iCourse | null;
+
+    /**
+     * How the recorded game was being played
+     */
+    private readonly mode: GAME_MODES;
+
+    /**
+     * Every recorded input, in the order they arrived
+     */
+    private readonly inputs: ReplayInput[] = [];
+
+    /**
+     * Every recorded viewport resize, in the order they happened
+     */
+    private readonly resizes: ReplayResize[] = [];
+
+    constructor(
+        seed: number,
+        width: number,
+        height: number,
+        course: iCourse | null = null,
+        mode: GAME_MODES = GAME_MODES.ENDLESS
+    ) {
+        this.seed = seed;
+        this.width = width;
+        this.height = height;
+        this.course = course;
+        this.mode = mode;
+    }
+
+    /**
+     * Record an action that arrived before the given simulation step was run.
+     */
+    record(step: number, action: ACTIONS) {
+        this.inputs.push([step, action]);
+    }
+
+    /**
+     * Record the viewport being resized before the given simulation step was run.
+     */
+    recordResize(step: number, width: number, height: number) {
+        this.resizes.push([step, width, height]);
+    }
+
+    /**
+     * Build a replay of everything recorded up to the given simulation step.
+     */
+    getReplay(steps: number): iReplay {
+        const replay: iReplay = {
+            version: REPLAY_VERSION,
+            seed: this.seed,
+            width: this.width,
+            height: this.height,
+            steps,
+            inputs: this.inputs.slice()
+        };
+
+        if(this.resizes.length) {
+            replay.resizes = this.resizes.slice();
+        }
+
+        if(this.course) {
+            replay.course = this.course;
+        }
+
+        if(this.mode !== GAME_MODES.ENDLESS) {
+            replay.mode = this.mode;
+        }
+
+        return replay;
+    }
+}
\ No newline at end of file
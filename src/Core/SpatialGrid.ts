@@ -0,0 +1,163 @@
+/**
+ * A uniform grid spatial index. The world is split into square cells and each item is stored in every cell its bounds
+ * overlap, so finding the items in an area or near a point only needs to look at a handful of cells instead of every
+ * item in the world.
+ */
+
+import { intersectTwoRects, Position, Rect } from "./Utils";
+
+/**
+ * The bounds an item was inserted with and the keys of the cells it's stored in, kept so the item can be removed.
+ */
+interface iGridEntry {
+    bounds: Rect;
+    cellKeys: string[];
+}
+
+export class SpatialGrid<T> {
+    /**
+     * The width and height of each cell in world units
+     */
+    private readonly cellSize: number;
+
+    /**
+     * The items stored in each cell, keyed by the cell's column and row
+     */
+    private readonly cells: Map<string, T[]> = new Map();
+
+    private readonly entries: Map<T, iGridEntry> = new Map();
+
+    constructor(cellSize: number) {
+        this.cellSize = cellSize;
+    }
+
+    /**
+     * Add an item to every cell its bounds overlap. If the item is already in the grid it's moved to the new bounds.
+     */
+    insert(item: T, bounds: Rect) {
+        if(this.entries.has(item)) {
+            this.remove(item);
+        }
+
+        const cellKeys = this.getCellKeys(bounds);
+        cellKeys.forEach((cellKey: string) => {
+            const cell = this.cells.get(cellKey);
+            if(cell) {
+                cell.push(item);
+            }
+            else {
+                this.cells.set(cellKey, [item]);
+            }
+        });
+
+        this.entries.set(item, { bounds, cellKeys });
+    }
+
+    /**
+     * Remove an item from every cell it's stored in.
+     */
+    remove(item: T) {
+        const entry = this.entries.get(item);
+        if(!entry) {
+            return;
+        }
+
+        entry.cellKeys.forEach((cellKey: string) => {
+            const cell = this.cells.get(cellKey);
+            if(!cell) {
+                return;
+            }
+
+            cell.splice(cell.indexOf(item), 1);
+            if(!cell.length) {
+                this.cells.delete(cellKey);
+            }
+        });
+
+        this.entries.delete(item);
+    }
+
+    /**
+     * Remove every item from the grid.
+     */
+    clear() {
+        this.cells.clear();
+        this.entries.clear();
+    }
+
+    /**
+     * Return every item whose bounds intersect the area.
+     */
+    queryRect(area: Rect): T[] {
+        const found: T[] = [];
+        const seen: Set<T> = new Set();
+
+        this.getCellKeys(area).forEach((cellKey: string) => {
+            const cell = this.cells.get(cellKey);
+            if(!cell) {
+                return;
+            }
+
+            cell.forEach((item: T) => {
+                if(seen.has(item)) {
+                    return;
+                }
+                seen.add(item);
+
+                const entry = this.entries.get(item);
+                if(entry && intersectTwoRects(area, entry.bounds)) {
+                    found.push(item);
+                }
+            });
+        });
+
+        return found;
+    }
+
+    /**
+     * Return the item whose bounds center is closest to the position, as long as it's within the radius. Returns null
+     * if there isn't one.
+     */
+    findNearest(position: Position, radius: number): T | null {
+        const searchArea = new Rect(position.x - radius, position.y - radius, position.x + radius, position.y + radius);
+
+        let nearest: T | null = null;
+        let nearestDistance: number = radius;
+
+        this.queryRect(searchArea).forEach((item: T) => {
+            const entry = this.entries.get(item);
+            if(!entry) {
+                return;
+            }
+
+            const centerX = (entry.bounds.left + entry.bounds.right) / 2;
+            const centerY = (entry.bounds.top + entry.bounds.bottom) / 2;
+            const distance = Math.hypot(centerX - position.x, centerY - position.y);
+            if(distance <= nearestDistance) {
+                nearest = item;
+                nearestDistance = distance;
+            }
+        });
+
+        return nearest;
+    }
+
+    /**
+     * Get the keys of every cell the area overlaps.
+     */
+    private getCellKeys(area: Rect): string[] {
+        const firstColumn = Math.floor(area.left / this.cellSize);
+        const lastColumn = Math.floor(area.right / this.cellSize);
+        const firstRow = Math.floor(area.top / this.cellSize);
+        const lastRow = Math.floor(area.bottom / this.cellSize);
+
+        const cellKeys: string[] = [];
+        for(let column = firstColumn; column <= lastColumn; column++) {
+            for(let row = firstRow; row <= lastRow; row++) {
+                cellKeys.push(`${column},${row}`);
+            }
+        }
+
+        return cellKeys;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,312 @@
+/**
+ * Tests for the state machine, both on its own and as the skier and rhino use it. Every pair of states is checked
+ * against the skier's and rhino's transition tables, so each legal transition is made and each illegal one is refused,
+ * along with the guards that hold back transitions until an animation has played out.
+ */
+
+import { CAUSES_OF_DEATH, HITBOXES, IMAGES, SOUNDS } from "../Constants";
+import { Rhino, STATES as RHINO_STATES } from "../Entities/Rhino";
+import { Skier, STATES as SKIER_STATES } from "../Entities/Skier";
+import { ObstacleManager } from "../Entities/Obstacles/ObstacleManager";
+import { AudioManager } from "./AudioManager";
+import { ImageManager } from "./ImageManager";
+import { NullCanvas } from "./NullCanvas";
+import { Random } from "./Random";
+import { StateMachine } from "./StateMachine";
+
+/**
+ * The transitions the skier and rhino are expected to allow. Any pair of states not listed is illegal.
+ */
+const SKIER_TRANSITIONS: [SKIER_STATES, SKIER_STATES][] = [
+    [SKIER_STATES.STATE_SKIING, SKIER_STATES.STATE_JUMPING],
+    [SKIER_STATES.STATE_SKIING, SKIER_STATES.STATE_CRASHED],
+    [SKIER_STATES.STATE_SKIING, SKIER_STATES.STATE_DEAD],
+    [SKIER_STATES.STATE_JUMPING, SKIER_STATES.STATE_SKIING],
+    [SKIER_STATES.STATE_JUMPING, SKIER_STATES.STATE_CRASHED],
+    [SKIER_STATES.STATE_JUMPING, SKIER_STATES.STATE_DEAD],
+    [SKIER_STATES.STATE_CRASHED, SKIER_STATES.STATE_SKIING],
+    [SKIER_STATES.STATE_CRASHED, SKIER_STATES.STATE_DEAD]
+];
+const RHINO_TRANSITIONS: [RHINO_STATES, RHINO_STATES][] = [
+    [RHINO_STATES.STATE_RUNNING, RHINO_STATES.STATE_RUNNING],
+    [RHINO_STATES.STATE_RUNNING, RHINO_STATES.STATE_EATING],
+    [RHINO_STATES.STATE_EATING, RHINO_STATES.STATE_RUNNING],
+    [RHINO_STATES.STATE_EATING, RHINO_STATES.STATE_CELEBRATING],
+    [RHINO_STATES.STATE_CELEBRATING, RHINO_STATES.STATE_RUNNING]
+];
+
+/**
+ * Every pair of states, split into those the table allows and those it doesn't
+ */
+function splitTransitions<S extends string>(states: S[], legal: [S, S][]): { legal: [S, S][], illegal: [S, S][] } {
+    const illegal: [S, S][] = [];
+    for(const from of states) {
+        for(const to of states) {
+            if(!legal.some(([legalFrom, legalTo]: [S, S]) => legalFrom === from && legalTo === to)) {
+                illegal.push([from, to]);
+            }
+        }
+    }
+
+    return { legal, illegal };
+}
+
+const skierTransitions = splitTransitions(Object.values(SKIER_STATES), SKIER_TRANSITIONS);
+const rhinoTransitions = splitTransitions(Object.values(RHINO_STATES), RHINO_TRANSITIONS);
+
+/**
+ * How many simulation steps are more than enough for any of the animations to play out
+ */
+const ANIMATION_STEPS: number = 200;
+
+function createImageManager(): ImageManager {
+    return new ImageManager(IMAGES, HITBOXES);
+}
+
+function createSkier(): Skier {
+    const imageManager = createImageManager();
+    const canvas = new NullCanvas(800, 600);
+    const obstacleManager = new ObstacleManager(imageManager, canvas, new Random(1));
+
+    return new Skier(0, 0, imageManager, new AudioManager(SOUNDS), obstacleManager, canvas);
+}
+
+function createRhino(): Rhino {
+    const imageManager = createImageManager();
+    const canvas = new NullCanvas(800, 600);
+    const obstacleManager = new ObstacleManager(imageManager, canvas, new Random(1));
+
+    return new Rhino(0, 0, imageManager, new AudioManager(SOUNDS), obstacleManager, canvas);
+}
+
+/**
+ * Play the entity's current animation all the way through, so anything waiting on it can happen
+ */
+function playOutAnimation(entity: Skier | Rhino) {
+    for(let step = 0; step < ANIMATION_STEPS && entity.curAnimation; step++) {
+        entity.animate();
+    }
+}
+
+/**
+ * Get a new skier into the state given the way the game would, through the skier's own actions
+ */
+function createSkierInState(state: SKIER_STATES): Skier {
+    const skier = createSkier();
+    switch(state) {
+        case SKIER_STATES.STATE_JUMPING:
+            skier.jump();
+            break;
+        case SKIER_STATES.STATE_CRASHED:
+            skier.crash();
+            break;
+        case SKIER_STATES.STATE_DEAD:
+            skier.die(CAUSES_OF_DEATH.EATEN_BY_RHINO);
+            break;
+    }
+
+    expect(skier.stateMachine.getState()).toBe(state);
+    return skier;
+}
+
+/**
+ * Get a new rhino into the state given the way the game would, by catching a skier and eating them
+ */
+function createRhinoInState(state: RHINO_STATES): Rhino {
+    const rhino = createRhino();
+    if(state !== RHINO_STATES.STATE_RUNNING) {
+        rhino.caughtTarget(createSkier());
+    }
+    if(state === RHINO_STATES.STATE_CELEBRATING) {
+        playOutAnimation(rhino);
+    }
+
+    expect(rhino.stateMachine.getState()).toBe(state);
+    return rhino;
+}
+
+describe('StateMachine', () => {
+    type TEST_STATES = 'idle' | 'moving' | 'stopped';
+
+    let calls: string[];
+    let allowed: boolean;
+    let machine: StateMachine<TEST_STATES>;
+
+    beforeEach(() => {
+        calls = [];
+        allowed = true;
+        machine = new StateMachine<TEST_STATES>(
+            'idle',
+            {
+                idle: {
+                    onEnter: (from: TEST_STATES) => calls.push(`enter idle from ${from}`),
+                    onExit: (to: TEST_STATES) => calls.push(`exit idle to ${to}`)
+                },
+                moving: {
+                    onEnter: (from: TEST_STATES) => calls.push(`enter moving from ${from}`),
+                    onExit: (to: TEST_STATES) => calls.push(`exit moving to ${to}`)
+                },
+                stopped: {}
+            },
+            [
+                { from: 'idle', to: 'moving' },
+                { from: 'moving', to: 'idle' },
+                { from: 'moving', to: 'stopped', guard: () => allowed }
+            ]
+        );
+    });
+
+    it('starts in its initial state without entering it', () => {
+        expect(machine.getState()).toBe('idle');
+        expect(machine.is('idle')).toBe(true);
+        expect(calls).toEqual([]);
+    });
+
+    it('exits the current state before entering the new one', () => {
+        expect(machine.transition('moving')).toBe(true);
+        expect(machine.transition('idle')).toBe(true);
+
+        expect(machine.getState()).toBe('idle');
+        expect(calls).toEqual([
+            'exit idle to moving',
+            'enter moving from idle',
+            'exit moving to idle',
+            'enter idle from moving'
+        ]);
+    });
+
+    it('refuses transitions that are not declared without calling any hooks', () => {
+        expect(machine.isDeclared('stopped')).toBe(false);
+        expect(machine.canTransition('stopped')).toBe(false);
+        expect(machine.transition('stopped')).toBe(false);
+
+        expect(machine.getState()).toBe('idle');
+        expect(calls).toEqual([]);
+    });
+
+    it('refuses declared transitions whose guard fails without calling any hooks', () => {
+        machine.transition('moving');
+        calls = [];
+        allowed = false;
+
+        expect(machine.isDeclared('stopped')).toBe(true);
+        expect(machine.canTransition('stopped')).toBe(false);
+        expect(machine.transition('stopped')).toBe(false);
+        expect(machine.getState()).toBe('moving');
+        expect(calls).toEqual([]);
+
+        allowed = true;
+        expect(machine.transition('stopped')).toBe(true);
+        expect(machine.getState()).toBe('stopped');
+        expect(calls).toEqual(['exit moving to stopped']);
+    });
+});
+
+describe('Skier state machine', () => {
+    it.each(skierTransitions.legal)('allows %s to %s', (from: SKIER_STATES, to: SKIER_STATES) => {
+        const skier = createSkierInState(from);
+        expect(skier.stateMachine.isDeclared(to)).toBe(true);
+
+        // Guards hold transitions back until the current animation has played out, which is tested on its own
+        skier.stopAnimation();
+        expect(skier.stateMachine.transition(to)).toBe(true);
+        expect(skier.stateMachine.getState()).toBe(to);
+    });
+
+    it.each(skierTransitions.illegal)('refuses %s to %s', (from: SKIER_STATES, to: SKIER_STATES) => {
+        const skier = createSkierInState(from);
+        expect(skier.stateMachine.isDeclared(to)).toBe(false);
+        expect(skier.stateMachine.transition(to)).toBe(false);
+        expect(skier.stateMachine.getState()).toBe(from);
+    });
+
+    it('takes off into the jump animation as it starts jumping', () => {
+        const skier = createSkierInState(SKIER_STATES.STATE_JUMPING);
+        expect(skier.curAnimation).toBe(skier.animations[SKIER_STATES.STATE_JUMPING]);
+    });
+
+    it('only lands once the jump has played out', () => {
+        const skier = createSkierInState(SKIER_STATES.STATE_JUMPING);
+        expect(skier.stateMachine.canTransition(SKIER_STATES.STATE_SKIING)).toBe(false);
+        expect(skier.stateMachine.transition(SKIER_STATES.STATE_SKIING)).toBe(false);
+        expect(skier.isJumping()).toBe(true);
+
+        playOutAnimation(skier);
+        expect(skier.isSkiing()).toBe(true);
+    });
+
+    it('stops the jump without landing when crashing in the air', () => {
+        const skier = createSkierInState(SKIER_STATES.STATE_JUMPING);
+        const landFromJump = jest.spyOn(skier, 'landFromJump');
+
+        skier.crash();
+        expect(skier.isCrashed()).toBe(true);
+        expect(skier.curAnimation).toBeNull();
+        expect(landFromJump).not.toHaveBeenCalled();
+    });
+
+    it('crashes to a stop and recovers at the starting speed', () => {
+        const skier = createSkierInState(SKIER_STATES.STATE_CRASHED);
+        expect(skier.speed).toBe(0);
+
+        skier.turnLeft();
+        expect(skier.isSkiing()).toBe(true);
+        expect(skier.speed).toBeGreaterThan(0);
+    });
+
+    it('stops moving when dying', () => {
+        const skier = createSkierInState(SKIER_STATES.STATE_DEAD);
+        expect(skier.speed).toBe(0);
+        expect(skier.causeOfDeath).toBe(CAUSES_OF_DEATH.EATEN_BY_RHINO);
+    });
+});
+
+describe('Rhino state machine', () => {
+    it.each(rhinoTransitions.legal)('allows %s to %s', (from: RHINO_STATES, to: RHINO_STATES) => {
+        const rhino = createRhinoInState(from);
+        expect(rhino.stateMachine.isDeclared(to)).toBe(true);
+
+        // Guards hold transitions back until the current animation has played out, which is tested on its own
+        rhino.stopAnimation();
+        expect(rhino.stateMachine.transition(to)).toBe(true);
+        expect(rhino.stateMachine.getState()).toBe(to);
+    });
+
+    it.each(rhinoTransitions.illegal)('refuses %s to %s', (from: RHINO_STATES, to: RHINO_STATES) => {
+        const rhino = createRhinoInState(from);
+        expect(rhino.stateMachine.isDeclared(to)).toBe(false);
+        expect(rhino.stateMachine.transition(to)).toBe(false);
+        expect(rhino.stateMachine.getState()).toBe(from);
+    });
+
+    it.each(Object.values(RHINO_STATES))('starts the %s animation as it enters the state', (state: RHINO_STATES) => {
+        const rhino = createRhinoInState(state);
+        expect(rhino.curAnimation).toBe(rhino.animations[state]);
+    });
+
+    it('kills what it catches while running', () => {
+        const rhino = createRhino();
+        const skier = createSkier();
+
+        rhino.caughtTarget(skier);
+        expect(skier.isDead()).toBe(true);
+    });
+
+    it('only celebrates once it has finished eating', () => {
+        const rhino = createRhinoInState(RHINO_STATES.STATE_EATING);
+        expect(rhino.stateMachine.canTransition(RHINO_STATES.STATE_CELEBRATING)).toBe(false);
+        rhino.celebrate();
+        expect(rhino.stateMachine.getState()).toBe(RHINO_STATES.STATE_EATING);
+
+        playOutAnimation(rhino);
+        expect(rhino.stateMachine.getState()).toBe(RHINO_STATES.STATE_CELEBRATING);
+    });
+
+    it('can be set running again from every state when it spawns', () => {
+        for(const state of Object.values(RHINO_STATES)) {
+            const rhino = createRhinoInState(state);
+            rhino.spawn(100, 100);
+            expect(rhino.isRunning()).toBe(true);
+        }
+    });
+});
\ No newline at end of file
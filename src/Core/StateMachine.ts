@@ -0,0 +1,85 @@
+/**
+ * A finite state machine. Every state is declared up front, along with its enter and exit hooks, and so is every
+ * transition allowed between them. Only a declared transition whose guard passes can be made, and anything else is
+ * refused, leaving the machine where it was. The machine starts in its initial state without entering it, so nothing
+ * needs to be setup for its hooks yet.
+ */
+
+import { iStateHooks, iStateTransition } from "../Interfaces/iStateMachine";
+
+export class StateMachine<S extends string> {
+    /**
+     * The state the machine is currently in
+     */
+    private state: S;
+
+    /**
+     * The hooks of every state
+     */
+    private readonly states: {[state in S]: iStateHooks<S>};
+
+    /**
+     * Every transition allowed between the states
+     */
+    private readonly transitions: iStateTransition<S>[];
+
+    constructor(initialState: S, states: {[state in S]: iStateHooks<S>}, transitions: iStateTransition<S>[]) {
+        this.state = initialState;
+        this.states = states;
+        this.transitions = transitions;
+    }
+
+    getState(): S {
+        return this.state;
+    }
+
+    /**
+     * Is the machine currently in the state given
+     */
+    is(state: S): boolean {
+        return this.state === state;
+    }
+
+    /**
+     * Is a transition from the current state to the one given declared
+     */
+    isDeclared(to: S): boolean {
+        return !!this.findTransition(to);
+    }
+
+    /**
+     * Can the machine transition from the current state to the one given right now: the transition is declared and its
+     * guard, if it has one, passes.
+     */
+    canTransition(to: S): boolean {
+        const transition = this.findTransition(to);
+        if(!transition) {
+            return false;
+        }
+
+        return !transition.guard || transition.guard();
+    }
+
+    /**
+     * Transition to the state given, if the machine can, exiting the current state and then entering the new one.
+     * Returns whether the transition was made.
+     */
+    transition(to: S): boolean {
+        if(!this.canTransition(to)) {
+            return false;
+        }
+
+        const from = this.state;
+        this.states[from].onExit?.(to);
+        this.state = to;
+        this.states[to].onEnter?.(from);
+
+        return true;
+    }
+
+    private findTransition(to: S): iStateTransition<S> | undefined {
+        return this.transitions.find((transition: iStateTransition<S>) => {
+            return transition.from === this.state && transition.to === to;
+        });
+    }
+}
\ No newline at end of file
@@ -2,15 +2,6 @@
  * A set of common utilities used throughout the game.
  */
 
-/**
- * Return a random integer between min and max, inclusive of both.
- */
-export function randomInt(min: number, max: number): number {
-    min = Math.ceil(min);
-    max = Math.floor(max);
-    return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
 /**
  * A simple coordinate class to keep track of two dimensional positions
  */
@@ -41,6 +32,21 @@ export class Rect {
     }
 }
 
+/**
+ * A simple circle class denoted by its center coordinates and radius
+ */
+export class Circle {
+    x: number = 0;
+    y: number = 0;
+    radius: number = 0;
+
+    constructor(x: number, y: number, radius: number) {
+        this.x = x;
+        this.y = y;
+        this.radius = radius;
+    }
+}
+
 /**
  * Determine if there is an intersection (overlap) between two rectangles.
  */
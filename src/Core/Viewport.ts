@@ -0,0 +1,21 @@
+/**
+ * Watches for anything that changes how the page is displayed: the browser window being resized, or the device pixel
+ * ratio changing, e.g. when the browser is zoomed or the window is moved to a monitor with a different pixel density.
+ * The listener is given the new size of the window each time.
+ */
+
+export function listenForViewportChanges(onChange: (width: number, height: number) => void) {
+    window.addEventListener('resize', () => {
+        onChange(window.innerWidth, window.innerHeight);
+    });
+
+    // A media query only matches the pixel ratio at the time it was made, so a new one is made each time it changes
+    const watchPixelRatio = () => {
+        const query = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+        query.addEventListener('change', () => {
+            onChange(window.innerWidth, window.innerHeight);
+            watchPixelRatio();
+        }, { once: true });
+    };
+    watchPixelRatio();
+}
\ No newline at end of file
@@ -0,0 +1,506 @@
+/**
+ * A renderer that draws to the HTML Canvas element with WebGL, for busy slopes with a lot to draw. Everything is drawn
+ * as textured triangles, with rectangles and polygons using a plain white texture, and collected into a batch that's
+ * only sent to the GPU when the texture changes, the batch is full or the frame is flushed. Text is drawn onto a 2D
+ * canvas and uploaded as a texture, which is kept while the same text keeps being drawn.
+ */
+
+import { iSprite } from '../Interfaces/iSprite';
+import { BaseRenderer, DEFAULT_COLOR } from './BaseRenderer';
+import { findCanvasElement } from './Canvas';
+import { Position } from './Utils';
+
+/**
+ * The most triangles that are batched up before they have to be drawn.
+ */
+const MAX_BATCH_TRIANGLES: number = 4000;
+
+/**
+ * Each vertex is its screen position, texture coordinates and color.
+ */
+const FLOATS_PER_VERTEX: number = 8;
+
+/**
+ * The most textures of text that are kept at once. The least recently drawn is thrown away to make room for more.
+ */
+const MAX_TEXT_TEXTURES: number = 64;
+
+/**
+ * How much taller than the font size a line of text's texture is, to leave room for anything below the baseline.
+ */
+const TEXT_HEIGHT_SCALE: number = 1.3;
+
+/**
+ * The texture coordinates (left, top, right, bottom) that cover a whole texture
+ */
+const WHOLE_TEXTURE: number[] = [0, 0, 1, 1];
+
+const VERTEX_SHADER: string = `
+    attribute vec2 a_position;
+    attribute vec2 a_texCoord;
+    attribute vec4 a_color;
+    uniform vec2 u_resolution;
+    varying vec2 v_texCoord;
+    varying vec4 v_color;
+
+    void main() {
+        vec2 clipSpace = (a_position / u_resolution) * 2.0 - 1.0;
+        gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
+        v_texCoord = a_texCoord;
+        v_color = a_color;
+    }
+`;
+
+const FRAGMENT_SHADER: string = `
+    precision mediump float;
+    uniform sampler2D u_texture;
+    varying vec2 v_texCoord;
+    varying vec4 v_color;
+
+    void main() {
+        gl_FragColor = texture2D(u_texture, v_texCoord) * v_color;
+    }
+`;
+
+/**
+ * A texture with text drawn on it, and the size it's drawn at in screen coordinates
+ */
+interface iTextTexture {
+    texture: WebGLTexture;
+    width: number;
+    height: number;
+}
+
+export class WebGLCanvas extends BaseRenderer {
+    canvasId: string;
+
+    canvas: HTMLCanvasElement;
+
+    gl: WebGLRenderingContext;
+
+    private program: WebGLProgram;
+
+    private resolutionLocation: WebGLUniformLocation | null;
+
+    /**
+     * The vertices of the triangles batched up to be drawn, and how many vertices there are
+     */
+    private vertices: Float32Array = new Float32Array(MAX_BATCH_TRIANGLES * 3 * FLOATS_PER_VERTEX);
+    private vertexCount: number = 0;
+
+    private vertexBuffer: WebGLBuffer | null;
+
+    /**
+     * The texture every triangle in the batch is drawn with
+     */
+    private batchTexture: WebGLTexture | null = null;
+
+    /**
+     * A single white pixel, used to draw rectangles and polygons in plain colors
+     */
+    private whiteTexture: WebGLTexture;
+
+    private imageTextures: Map<HTMLImageElement | HTMLCanvasElement, WebGLTexture> = new Map();
+
+    /**
+     * Textures of text that's been drawn, keyed by the font and text, from least to most recently drawn
+     */
+    private textTextures: Map<string, iTextTexture> = new Map();
+
+    /**
+     * The 2D canvas text is drawn onto before it's uploaded as a texture
+     */
+    private textCanvas: HTMLCanvasElement = document.createElement('canvas');
+
+    /**
+     * Hex colors that have been parsed, as premultiplied RGBA values from 0 to 1. rgba() colors aren't kept, as fading
+     * particles draw with a different opacity nearly every time.
+     */
+    private colors: Map<string, number[]> = new Map();
+
+    constructor(canvasId: string, width: number, height: number) {
+        super(width, height);
+        this.canvasId = canvasId;
+        this.canvas = findCanvasElement(this.canvasId);
+
+        // Like the 2D canvas, what's drawn is kept until it's cleared, so something can be drawn over the last frame
+        const gl = this.canvas.getContext('webgl', { preserveDrawingBuffer: true });
+        if(!gl) {
+            throw new Error(`Could not retrieve WebGL context for canvas ${this.canvasId}`);
+        }
+        this.gl = gl;
+
+        this.program = this.createProgram();
+        this.resolutionLocation = gl.getUniformLocation(this.program, 'u_resolution');
+        this.vertexBuffer = gl.createBuffer();
+        this.setupAttributes();
+
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+
+        this.whiteTexture = this.createTexture();
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array([255, 255, 255, 255]));
+
+        this.setupCanvas();
+    }
+
+    /**
+     * Can WebGL be used in this browser
+     */
+    static isSupported(): boolean {
+        try {
+            return !!document.createElement('canvas').getContext('webgl');
+        } catch(error) {
+            return false;
+        }
+    }
+
+    /**
+     * Make the canvas element the proper size, compensating for device pixel scaling, and draw to all of it. Can be
+     * called again whenever the size or the device pixel ratio changes. Any text kept was drawn at the old pixel ratio,
+     * so it's thrown away to be drawn again.
+     */
+    setupCanvas() {
+        this.deleteTextTextures();
+
+        this.canvas.width = this.width * window.devicePixelRatio;
+        this.canvas.height = this.height * window.devicePixelRatio;
+        this.canvas.style.width = this.width + 'px';
+        this.canvas.style.height = this.height + 'px';
+
+        this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+        this.gl.uniform2f(this.resolutionLocation, this.width, this.height);
+    }
+
+    /**
+     * Change the size of the canvas, e.g. when the browser window is resized.
+     */
+    resize(width: number, height: number) {
+        super.resize(width, height);
+
+        this.setupCanvas();
+    }
+
+    /**
+     * Erase the entire canvas, throwing away anything that was batched up to be drawn.
+     */
+    clearCanvas() {
+        this.vertexCount = 0;
+        this.gl.clearColor(0, 0, 0, 0);
+        this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+    }
+
+    /**
+     * Draw a sprite's frame at the desired world coordinates at the desired size, through the camera transform. Sprites
+     * from the same atlas share a texture, so they're batched together. Sprites without an image have nothing to draw.
+     */
+    drawSprite(sprite: iSprite, x: number, y: number, width: number, height: number) {
+        const { image, frame } = sprite;
+        if(!image) {
+            return;
+        }
+
+        const screenPosition = this.worldToScreen(x, y);
+        this.addQuad(
+            this.getImageTexture(image),
+            screenPosition.x,
+            screenPosition.y,
+            width * this.zoom,
+            height * this.zoom,
+            [1, 1, 1, 1],
+            [
+                frame.x / image.width,
+                frame.y / image.height,
+                (frame.x + frame.width) / image.width,
+                (frame.y + frame.height) / image.height
+            ]
+        );
+    }
+
+    /**
+     * Draw text at the desired screen coordinates, with y being the baseline of the text like the 2D canvas. Text is
+     * part of the UI, so it ignores the camera transform.
+     */
+    drawText(text: string, x: number, y: number, font: string) {
+        const textTexture = this.getTextTexture(text, font);
+        const ascent = textTexture.height / TEXT_HEIGHT_SCALE;
+
+        this.addQuad(textTexture.texture, x, y - ascent, textTexture.width, textTexture.height, [1, 1, 1, 1]);
+    }
+
+    /**
+     * Draw a filled rectangle at the desired screen coordinates, in the color given. Like text, it ignores the camera
+     * transform.
+     */
+    drawRect(x: number, y: number, width: number, height: number, color: string = DEFAULT_COLOR) {
+        this.addQuad(this.whiteTexture, x, y, width, height, this.parseColor(color));
+    }
+
+    /**
+     * Draw a filled polygon through the desired screen coordinates, in the color given. It's split into a fan of
+     * triangles, so it has to be convex. Like text, it ignores the camera transform.
+     */
+    drawPolygon(points: Position[], color: string = DEFAULT_COLOR) {
+        const rgba = this.parseColor(color);
+        this.useTexture(this.whiteTexture, (points.length - 2) * 3);
+
+        for(let i = 1; i < points.length - 1; i++) {
+            this.addVertex(points[0].x, points[0].y, 0, 0, rgba);
+            this.addVertex(points[i].x, points[i].y, 0, 0, rgba);
+            this.addVertex(points[i + 1].x, points[i + 1].y, 0, 0, rgba);
+        }
+    }
+
+    /**
+     * Draw every triangle that's been batched up.
+     */
+    flush() {
+        if(!this.vertexCount || !this.batchTexture) {
+            return;
+        }
+
+        const gl = this.gl;
+        gl.bindTexture(gl.TEXTURE_2D, this.batchTexture);
+        gl.bufferData(gl.ARRAY_BUFFER, this.vertices.subarray(0, this.vertexCount * FLOATS_PER_VERTEX), gl.STREAM_DRAW);
+        gl.drawArrays(gl.TRIANGLES, 0, this.vertexCount);
+
+        this.vertexCount = 0;
+    }
+
+    /**
+     * Batch up a textured rectangle as two triangles, covering the given area of the texture.
+     */
+    private addQuad(
+        texture: WebGLTexture,
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        rgba: number[],
+        textureArea: number[] = WHOLE_TEXTURE
+    ) {
+        this.useTexture(texture, 6);
+
+        const right = x + width;
+        const bottom = y + height;
+        const [u0, v0, u1, v1] = textureArea;
+        this.addVertex(x, y, u0, v0, rgba);
+        this.addVertex(right, y, u1, v0, rgba);
+        this.addVertex(x, bottom, u0, v1, rgba);
+        this.addVertex(x, bottom, u0, v1, rgba);
+        this.addVertex(right, y, u1, v0, rgba);
+        this.addVertex(right, bottom, u1, v1, rgba);
+    }
+
+    /**
+     * Make sure the batch is drawn with the given texture and has room for the given number of vertices, drawing what's
+     * already batched up if it doesn't.
+     */
+    private useTexture(texture: WebGLTexture, vertexCount: number) {
+        const isFull = (this.vertexCount + vertexCount) * FLOATS_PER_VERTEX > this.vertices.length;
+        if(texture !== this.batchTexture || isFull) {
+            this.flush();
+            this.batchTexture = texture;
+        }
+    }
+
+    private addVertex(x: number, y: number, u: number, v: number, rgba: number[]) {
+        const offset = this.vertexCount * FLOATS_PER_VERTEX;
+        this.vertices[offset] = x;
+        this.vertices[offset + 1] = y;
+        this.vertices[offset + 2] = u;
+        this.vertices[offset + 3] = v;
+        this.vertices.set(rgba, offset + 4);
+
+        this.vertexCount++;
+    }
+
+    /**
+     * Return the texture for an image, uploading it the first time it's drawn.
+     */
+    private getImageTexture(image: HTMLImageElement | HTMLCanvasElement): WebGLTexture {
+        let texture = this.imageTextures.get(image);
+        if(!texture) {
+            texture = this.createTexture();
+            this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, this.gl.RGBA, this.gl.UNSIGNED_BYTE, image);
+            this.imageTextures.set(image, texture);
+        }
+
+        return texture;
+    }
+
+    /**
+     * Return a texture with the text drawn on it in the font given, drawing and uploading it if it isn't kept already.
+     * It's drawn at the device's pixel ratio, so it stays sharp. A kept texture is moved to the end of the cache, so
+     * the first one is always the least recently drawn.
+     */
+    private getTextTexture(text: string, font: string): iTextTexture {
+        const key = `${font}|${text}`;
+        const existingTexture = this.textTextures.get(key);
+        if(existingTexture) {
+            this.textTextures.delete(key);
+            this.textTextures.set(key, existingTexture);
+            return existingTexture;
+        }
+
+        if(this.textTextures.size >= MAX_TEXT_TEXTURES) {
+            const oldestKey: string = this.textTextures.keys().next().value;
+            const oldestTexture = this.textTextures.get(oldestKey);
+            if(oldestTexture) {
+                this.gl.deleteTexture(oldestTexture.texture);
+            }
+            this.textTextures.delete(oldestKey);
+        }
+
+        const ctx = this.textCanvas.getContext('2d');
+        if(!ctx) {
+            throw new Error('Could not retrieve context for drawing text');
+        }
+
+        const pixelRatio = window.devicePixelRatio;
+        const fontSize = parseFontSize(font);
+        ctx.font = font;
+        const width = Math.max(1, Math.ceil(ctx.measureText(text).width));
+        const height = Math.ceil(fontSize * TEXT_HEIGHT_SCALE);
+
+        this.textCanvas.width = width * pixelRatio;
+        this.textCanvas.height = height * pixelRatio;
+        ctx.scale(pixelRatio, pixelRatio);
+        ctx.font = font;
+        ctx.fillStyle = DEFAULT_COLOR;
+        ctx.fillText(text, 0, fontSize);
+
+        const texture = this.createTexture();
+        this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, this.gl.RGBA, this.gl.UNSIGNED_BYTE, this.textCanvas);
+
+        const textTexture: iTextTexture = { texture, width, height };
+        this.textTextures.set(key, textTexture);
+
+        return textTexture;
+    }
+
+    /**
+     * Throw away every texture of text, drawing anything batched up first in case it uses one of them.
+     */
+    private deleteTextTextures() {
+        this.flush();
+
+        this.textTextures.forEach((textTexture: iTextTexture) => this.gl.deleteTexture(textTexture.texture));
+        this.textTextures.clear();
+    }
+
+    /**
+     * Create a texture that's stretched rather than repeated, so it works at any size, and leave it bound.
+     */
+    private createTexture(): WebGLTexture {
+        const gl = this.gl;
+        const texture = gl.createTexture();
+        if(!texture) {
+            throw new Error('Could not create a WebGL texture');
+        }
+
+        this.flush();
+        this.batchTexture = null;
+
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+        return texture;
+    }
+
+    /**
+     * Parse a CSS color, either as hex (#rgb or #rrggbb) or as rgb() or rgba(), into premultiplied RGBA values from 0 to
+     * 1. Anything else is drawn in the default color.
+     */
+    private parseColor(color: string): number[] {
+        const existingColor = this.colors.get(color);
+        if(existingColor) {
+            return existingColor;
+        }
+
+        let rgba: number[] = [0, 0, 0, 1];
+        const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+        const functional = color.match(/^rgba?\(([^)]+)\)$/i);
+        if(hex) {
+            const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+            rgba = [0, 2, 4].map((index: number) => parseInt(digits.substr(index, 2), 16) / 255).concat(1);
+        }
+        else if(functional) {
+            const values = functional[1].split(',').map((value: string) => parseFloat(value));
+            rgba = [values[0] / 255, values[1] / 255, values[2] / 255, values.length > 3 ? values[3] : 1];
+        }
+
+        const alpha = rgba[3];
+        const premultiplied = [rgba[0] * alpha, rgba[1] * alpha, rgba[2] * alpha, alpha];
+        if(hex) {
+            this.colors.set(color, premultiplied);
+        }
+
+        return premultiplied;
+    }
+
+    /**
+     * Compile the shaders and link them into the program everything is drawn with.
+     */
+    private createProgram(): WebGLProgram {
+        const gl = this.gl;
+        const program = gl.createProgram();
+        if(!program) {
+            throw new Error('Could not create a WebGL program');
+        }
+
+        gl.attachShader(program, this.compileShader(gl.VERTEX_SHADER, VERTEX_SHADER));
+        gl.attachShader(program, this.compileShader(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+        gl.linkProgram(program);
+        if(!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            throw new Error(`Could not link WebGL program: ${gl.getProgramInfoLog(program)}`);
+        }
+
+        gl.useProgram(program);
+        return program;
+    }
+
+    private compileShader(type: number, source: string): WebGLShader {
+        const gl = this.gl;
+        const shader = gl.createShader(type);
+        if(!shader) {
+            throw new Error('Could not create a WebGL shader');
+        }
+
+        gl.shaderSource(shader, source);
+        gl.compileShader(shader);
+        if(!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+            throw new Error(`Could not compile WebGL shader: ${gl.getShaderInfoLog(shader)}`);
+        }
+
+        return shader;
+    }
+
+    /**
+     * Point each of the shader's attributes at its part of the vertices in the vertex buffer.
+     */
+    private setupAttributes() {
+        const gl = this.gl;
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+
+        const stride = FLOATS_PER_VERTEX * Float32Array.BYTES_PER_ELEMENT;
+        const attributes: [string, number, number][] = [['a_position', 2, 0], ['a_texCoord', 2, 2], ['a_color', 4, 4]];
+        attributes.forEach(([name, size, offset]: [string, number, number]) => {
+            const location = gl.getAttribLocation(this.program, name);
+            gl.enableVertexAttribArray(location);
+            gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * Float32Array.BYTES_PER_ELEMENT);
+        });
+    }
+}
+
+/**
+ * Read the size of a font in pixels from a CSS font, such as 'bold 24px monospace'.
+ */
+function parseFontSize(font: string): number {
+    const size = font.match(/(\d+(\.\d+)?)px/);
+    return size ? parseFloat(size[1]) : 16;
+}
\ No newline at end of file
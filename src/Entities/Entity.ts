@@ -2,11 +2,22 @@
  * A basic game entity with a position and image to be displayed in the game.
  */
 
-import { Canvas } from "../Core/Canvas";
+import { iRenderer } from "../Interfaces/iRenderer";
 import { ImageManager } from "../Core/ImageManager";
 import { Animation } from "../Core/Animation";
+import { ParticleSystem } from "../Core/Particles/ParticleSystem";
+import { RenderQueue } from "../Core/RenderQueue";
+import { getShapesBounds, intersectHitboxes, Shape, translateShape } from "../Core/Collision";
 import { Position, Rect } from "../Core/Utils";
-import {ANIMATION_FRAME_SPEED_MS, IMAGE_NAMES} from "../Constants";
+import {
+    CAUSES_OF_DEATH,
+    IMAGE_NAMES,
+    PARTICLE_EFFECT_NAMES,
+    PARTICLE_EFFECTS,
+    RENDER_LAYERS,
+    SIMULATION_STEP_MS
+} from "../Constants";
+import { iAnimationPlayhead } from "../Interfaces/iAnimationPlayhead";
 
 export abstract class Entity {
     /**
@@ -28,11 +39,23 @@ export abstract class Entity {
       * The current frame of the current animation the entity is on.
       */
      curAnimationFrame: number = 0;
+
+     /**
+      * The direction the current animation is playing through its frames in, 1 for forwards and -1 for backwards.
+      */
+     curAnimationDirection: number = 1;
  
      /**
-      * The time in ms of the last frame change. Used to provide a consistent framerate.
+      * How long in ms the current frame has been showing, scaled by the rate the animation is playing at. Used to show
+      * each frame for its own duration.
       */
-     curAnimationFrameTime: number = Date.now(); 
+     curAnimationFrameTime: number = 0;
+
+    /**
+     * The position of the entity at the start of the current simulation step. Rendering interpolates between this and
+     * the current position so movement looks smooth regardless of the display's refresh rate.
+     */
+    previousPosition: Position;
 
 
     /**
@@ -43,7 +66,12 @@ export abstract class Entity {
     /**
      * Stored reference to the Canvas entity is drawn to
      */
-    canvas: Canvas;
+    canvas: iRenderer;
+
+    /**
+     * The particle system the entity emits effects into, if it's been given one
+     */
+    particleSystem: ParticleSystem | null = null;
 
     /**
      * The name of the current image being displayed for the entity.
@@ -53,8 +81,9 @@ export abstract class Entity {
     /**
      * Initialize the entities position.
      */
-    constructor(x: number, y: number, imageManager: ImageManager, canvas: Canvas) {
+    constructor(x: number, y: number, imageManager: ImageManager, canvas: iRenderer) {
         this.position = new Position(x, y);
+        this.previousPosition = new Position(x, y);
         this.imageManager = imageManager;
         this.canvas = canvas;
     }
@@ -67,96 +96,191 @@ export abstract class Entity {
     }
 
     /**
-     * Draw the entity to the canvas centered on the X,Y position.
+     * Remember where the entity is before it's moved in a simulation step.
      */
-    draw(enlargeImage: boolean = false) {
+    storePreviousPosition() {
+        this.previousPosition.x = this.position.x;
+        this.previousPosition.y = this.position.y;
+    }
+
+    /**
+     * Return the position the entity should be drawn at, blended between its previous and current positions. Alpha is
+     * how far (0 to 1) the renderer is between the last simulation step and the next one.
+     */
+    getInterpolatedPosition(alpha: number): Position {
+        return new Position(
+            this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha,
+            this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha
+        );
+    }
+
+    /**
+     * Draw the entity to the canvas centered on its interpolated X,Y position.
+     */
+    draw(alpha: number = 1, enlargeImage: boolean = false) {
         const imageExpansionConstant = 1.05;
-        const image = this.imageManager.getImage(this.imageName);
-        if(!image) {
+        const sprite = this.imageManager.getSprite(this.imageName);
+        if(!sprite) {
             return;
         }
 
-        let {width, height} = image;
+        let {width, height} = sprite;
         if(enlargeImage) {
             width = width * imageExpansionConstant;
             height = width * imageExpansionConstant;
         }
 
-        const drawX = this.position.x - image.width / 2;
-        const drawY = this.position.y - image.height / 2;
+        const drawPosition = this.getInterpolatedPosition(alpha);
+        const drawX = drawPosition.x - sprite.width / 2;
+        const drawY = drawPosition.y - sprite.height / 2;
 
-        this.canvas.drawImage(image, drawX, drawY, width, height);
+        this.canvas.drawSprite(sprite, drawX, drawY, width, height);
     }
 
     /**
-     * Return a bounding box in world space coordinates for the entity based upon the current image displayed.
+     * Submit the entity to the render queue to be drawn in its layer, sorted by where it touches the slope.
      */
-    getBounds(): Rect | null {
-        const image = this.imageManager.getImage(this.imageName);
-        if(!image) {
+    submitDraw(renderQueue: RenderQueue, alpha: number = 1) {
+        renderQueue.submit(this.getRenderLayer(), this.getSortY(alpha), () => this.draw(alpha));
+    }
+
+    /**
+     * The layer the entity is drawn in. Most entities stand on the slope.
+     */
+    getRenderLayer(): RENDER_LAYERS {
+        return RENDER_LAYERS.WORLD;
+    }
+
+    /**
+     * How far down the slope the bottom of the entity's sprite is drawn, which is where it touches the ground. Used to
+     * draw entities further down the slope in front of those behind them.
+     */
+    getSortY(alpha: number = 1): number {
+        const drawY = this.getInterpolatedPosition(alpha).y;
+        const spriteSize = this.imageManager.getSpriteSize(this.imageName);
+
+        return spriteSize ? drawY + spriteSize.height / 2 : drawY;
+    }
+
+    /**
+     * Return a bounding box in world space coordinates for the whole of the current image displayed.
+     */
+    getSpriteBounds(): Rect | null {
+        const spriteSize = this.imageManager.getSpriteSize(this.imageName);
+        if(!spriteSize) {
             return null;
         }
 
         return new Rect(
-            this.position.x - image.width / 2,
-            this.position.y - image.height / 2,
-            this.position.x + image.width / 2,
-            this.position.y
+            this.position.x - spriteSize.width / 2,
+            this.position.y - spriteSize.height / 2,
+            this.position.x + spriteSize.width / 2,
+            this.position.y + spriteSize.height / 2
         );
     }
 
     /**
-     * Advance to the next frame in the current animation if enough time has elapsed since the previous frame.
+     * Return the shapes that make up the hitbox of the current image displayed, in world space coordinates.
      */
-     animate(gameTime: number) {
-        if(!this.curAnimation) {
+    getHitbox(): Shape[] {
+        return this.imageManager.getHitbox(this.imageName).map((shape: Shape) => {
+            return translateShape(shape, this.position.x, this.position.y);
+        });
+    }
+
+    /**
+     * Return a bounding box in world space coordinates around the entity's hitbox.
+     */
+    getBounds(): Rect | null {
+        return getShapesBounds(this.getHitbox());
+    }
+
+    /**
+     * Does the entity's hitbox overlap another entity's hitbox
+     */
+    collidesWith(entity: Entity): boolean {
+        return intersectHitboxes(this.getHitbox(), entity.getHitbox());
+    }
+
+    /**
+     * Play the current animation on by a simulation step, moving through as many frames as the time covers. Animations
+     * that follow the entity's speed play faster or slower for the speed given.
+     */
+     animate(speed: number = 0) {
+        const animation = this.curAnimation;
+        if(!animation) {
             return;
         }
 
-        if(gameTime - this.curAnimationFrameTime > ANIMATION_FRAME_SPEED_MS) {
-            this.nextAnimationFrame(gameTime);
+        this.curAnimationFrameTime += SIMULATION_STEP_MS * animation.getPlaybackRate(speed);
+        while(animation === this.curAnimation) {
+            const frameDuration = animation.getFrame(this.curAnimationFrame).durationMs;
+            if(this.curAnimationFrameTime < frameDuration) {
+                return;
+            }
+
+            this.curAnimationFrameTime -= frameDuration;
+            this.nextAnimationFrame();
         }
     }
 
     /**
-     * Increase the current animation frame and update the image based upon the sequence of images for the animation.
-     * If the animation isn't looping, then finish the animation instead.
+     * Move on to the next frame in the current animation and update the image to match. If the animation has played all
+     * the way through, then finish the animation instead.
      */
-    nextAnimationFrame(gameTime: number) {
+    nextAnimationFrame() {
         if(!this.curAnimation) {
             return;
         }
 
-        const animationImages = this.curAnimation.getImages();
+        const nextPlayhead = this.curAnimation.getNext({
+            frame: this.curAnimationFrame,
+            direction: this.curAnimationDirection
+        });
+        if(!nextPlayhead) {
+            this.finishAnimation();
+            return;
+        }
 
-        this.curAnimationFrameTime = gameTime;
-        this.curAnimationFrame++;
-        if (this.curAnimationFrame >= animationImages.length) {
-            if(!this.curAnimation.getLooping()) {
-                this.finishAnimation();
-                return;
-            }
+        this.showAnimationFrame(nextPlayhead);
+    }
 
-            this.curAnimationFrame = 0;
+    /**
+     * Show a frame of the current animation, firing its event if it has one.
+     */
+    showAnimationFrame(playhead: iAnimationPlayhead) {
+        if(!this.curAnimation) {
+            return;
         }
 
-        this.imageName = animationImages[this.curAnimationFrame];
+        this.curAnimationFrame = playhead.frame;
+        this.curAnimationDirection = playhead.direction;
+        this.imageName = this.curAnimation.getFrame(this.curAnimationFrame).image;
+
+        this.curAnimation.fireFrameEvent(this.curAnimationFrame);
     }
 
     /**
-     * The current animation wasn't looping, so finish it by clearing out the current animation and firing the callback.
+     * The current animation has played all the way through, so finish it by clearing out the current animation and
+     * firing its callbacks.
      */
     finishAnimation() {
         if(!this.curAnimation) {
             return;
         }
 
-        const animationCallback = this.curAnimation.getCallback();
+        const animation = this.curAnimation;
         this.curAnimation = null;
 
-        if(animationCallback) {
-            animationCallback.apply(null);
-        }
+        animation.fireComplete();
+    }
+
+    /**
+     * Stop the current animation where it is, without firing its callbacks, e.g. when the entity leaves the state the
+     * animation is for before it's played out.
+     */
+    stopAnimation() {
+        this.curAnimation = null;
     }
 
     /**
@@ -169,15 +293,26 @@ export abstract class Entity {
                  return;
              }
      
-             this.curAnimationFrame = 0;
-     
-             const animateImages = this.curAnimation.getImages();
-             this.imageName = animateImages[this.curAnimationFrame];
+             this.curAnimationFrameTime = 0;
+             this.showAnimationFrame(this.curAnimation.getStart());
          }
     }
 
+    /**
+     * Emit a particle effect from the entity's position, moved by the offset given, if the entity has a particle system
+     * to emit into.
+     */
+    emitParticles(effectName: PARTICLE_EFFECT_NAMES, offsetX: number = 0, offsetY: number = 0) {
+        if(!this.particleSystem) {
+            return;
+        }
+
+        const emitPosition = new Position(this.position.x + offsetX, this.position.y + offsetY);
+        this.particleSystem.emit(emitPosition, PARTICLE_EFFECTS[effectName]);
+    }
+
     /**
      * All entities need to define if they die and what happens when they do
      */
-    abstract die():void;
+    abstract die(cause: CAUSES_OF_DEATH):void;
 }
\ No newline at end of file
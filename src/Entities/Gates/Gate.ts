@@ -0,0 +1,132 @@
+/**
+ * A gate on a slalom race course: a pair of flags across the hill. The skier passes a gate by skiing between its flags.
+ * Whether they did is worked out from the path the skier took across the gate line during a simulation step, rather
+ * than from overlapping anything, so a fast skier can't skip over a gate between steps.
+ */
+
+import { IMAGE_NAMES, RENDER_LAYERS } from "../../Constants";
+import { iRenderer } from "../../Interfaces/iRenderer";
+import { ImageManager } from "../../Core/ImageManager";
+import { RenderQueue } from "../../Core/RenderQueue";
+import { Position } from "../../Core/Utils";
+import { Entity } from "../Entity";
+
+/**
+ * The different types of gates on a race course. The start and finish lines count as passed wherever they're crossed,
+ * while a slalom gate has to be passed between its flags.
+ */
+export enum GATE_TYPES {
+    START = 'start',
+    SLALOM = 'slalom',
+    FINISH = 'finish'
+};
+
+/**
+ * How thick the line between the flags of the start and finish gates is drawn, in pixels.
+ */
+const GATE_LINE_HEIGHT: number = 4;
+
+export class Gate extends Entity {
+    /**
+     * The flag image drawn at each end of the gate.
+     */
+    imageName: IMAGE_NAMES;
+
+    type: GATE_TYPES;
+
+    /**
+     * The distance between the two flags
+     */
+    width: number;
+
+    /**
+     * Create a gate centered on the given position. The gate line runs horizontally between the flags.
+     */
+    constructor(
+        x: number,
+        y: number,
+        width: number,
+        type: GATE_TYPES,
+        imageName: IMAGE_NAMES,
+        imageManager: ImageManager,
+        canvas: iRenderer
+    ) {
+        super(x, y, imageManager, canvas);
+
+        this.width = width;
+        this.type = type;
+        this.imageName = imageName;
+    }
+
+    getLeftX(): number {
+        return this.position.x - this.width / 2;
+    }
+
+    getRightX(): number {
+        return this.position.x + this.width / 2;
+    }
+
+    /**
+     * Did a path cross the gate line while heading down the hill
+     */
+    isCrossedBy(from: Position, to: Position): boolean {
+        return from.y < this.position.y && to.y >= this.position.y;
+    }
+
+    /**
+     * Did a path cross the gate line between the flags. The start and finish lines can be crossed anywhere.
+     */
+    isPassedBy(from: Position, to: Position): boolean {
+        if(!this.isCrossedBy(from, to)) {
+            return false;
+        }
+
+        if(this.type !== GATE_TYPES.SLALOM) {
+            return true;
+        }
+
+        const crossingX = from.x + (to.x - from.x) * (this.position.y - from.y) / (to.y - from.y);
+        return crossingX >= this.getLeftX() && crossingX <= this.getRightX();
+    }
+
+    /**
+     * Submit the flags to be drawn standing on the slope. The start and finish gates also get a line drawn on the ground
+     * between their flags.
+     */
+    submitDraw(renderQueue: RenderQueue) {
+        super.submitDraw(renderQueue);
+
+        if(this.type !== GATE_TYPES.SLALOM) {
+            renderQueue.submit(RENDER_LAYERS.GROUND, this.getSortY(), () => this.drawLine());
+        }
+    }
+
+    /**
+     * Draw a flag at each end of the gate.
+     */
+    draw() {
+        const sprite = this.imageManager.getSprite(this.imageName);
+        if(!sprite) {
+            return;
+        }
+
+        const drawY = this.position.y - sprite.height / 2;
+        this.canvas.drawSprite(sprite, this.getLeftX() - sprite.width / 2, drawY, sprite.width, sprite.height);
+        this.canvas.drawSprite(sprite, this.getRightX() - sprite.width / 2, drawY, sprite.width, sprite.height);
+    }
+
+    /**
+     * Draw the line between the flags, level with the bottom of them.
+     */
+    drawLine() {
+        const lineStart = this.canvas.worldToScreen(this.getLeftX(), this.getSortY());
+        this.canvas.drawRect(lineStart.x, lineStart.y, this.width * this.canvas.zoom, GATE_LINE_HEIGHT);
+    }
+
+    /**
+     * Gates can't be destroyed
+     */
+    die() {
+
+    }
+}
\ No newline at end of file
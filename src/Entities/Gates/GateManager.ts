@@ -0,0 +1,192 @@
+/**
+ * Manages the gates of a slalom race and times the race. The course is a start gate, a run of slalom gates swinging
+ * from side to side and a finish line, laid out from the world's seed. The clock starts at the start gate and a split
+ * time is taken at every gate after it. Every slalom gate missed adds a time penalty.
+ */
+
+import { IMAGE_NAMES } from "../../Constants";
+import { iRenderer } from "../../Interfaces/iRenderer";
+import { iRaceSplit } from "../../Interfaces/iRaceSplit";
+import { ImageManager } from "../../Core/ImageManager";
+import { Random } from "../../Core/Random";
+import { RenderQueue } from "../../Core/RenderQueue";
+import { Position } from "../../Core/Utils";
+import { Gate, GATE_TYPES } from "./Gate";
+
+/**
+ * How far below the skier's starting position the start gate is, and how wide it is.
+ */
+const START_GATE_Y: number = 300;
+const START_GATE_WIDTH: number = 300;
+
+/**
+ * The layout of the slalom gates. Gates alternate between either side of the hill, each moved a random amount further
+ * in or out so every course is a little different.
+ */
+const SLALOM_GATE_COUNT: number = 12;
+const SLALOM_GATE_SPACING: number = 450;
+const SLALOM_GATE_WIDTH: number = 120;
+const SLALOM_GATE_OFFSET: number = 150;
+const SLALOM_GATE_OFFSET_VARIATION: number = 60;
+
+const FINISH_GATE_WIDTH: number = 400;
+
+/**
+ * The time added to the race for each slalom gate missed.
+ */
+export const MISSED_GATE_PENALTY_MS: number = 2000;
+
+export class GateManager {
+    /**
+     * Every gate on the course, in the order they're skied through
+     */
+    gates: Gate[] = [];
+
+    /**
+     * The index of the gate the skier has to go through next
+     */
+    nextGateIndex: number = 0;
+
+    /**
+     * The game time the skier went through the start gate, or null if they haven't yet
+     */
+    startTime: number | null = null;
+
+    /**
+     * The game time the skier crossed the finish line, or null if they haven't yet
+     */
+    finishTime: number | null = null;
+
+    /**
+     * The split time taken at each slalom gate
+     */
+    splits: iRaceSplit[] = [];
+
+    imageManager: ImageManager;
+
+    canvas: iRenderer;
+
+    /**
+     * Init the gate manager and lay out the course.
+     */
+    constructor(imageManager: ImageManager, canvas: iRenderer, random: Random) {
+        this.imageManager = imageManager;
+        this.canvas = canvas;
+
+        this.placeGates(random);
+    }
+
+    getGates(): Gate[] {
+        return this.gates;
+    }
+
+    getSplits(): iRaceSplit[] {
+        return this.splits;
+    }
+
+    isStarted(): boolean {
+        return this.startTime !== null;
+    }
+
+    isFinished(): boolean {
+        return this.finishTime !== null;
+    }
+
+    /**
+     * The number of slalom gates the skier has missed so far
+     */
+    getMissedGateCount(): number {
+        return this.splits.filter((split: iRaceSplit) => split.missed).length;
+    }
+
+    getPenaltyTime(): number {
+        return this.getMissedGateCount() * MISSED_GATE_PENALTY_MS;
+    }
+
+    /**
+     * How long the skier has been racing, without penalties. The clock stops at the finish line.
+     */
+    getElapsedTime(gameTime: number): number {
+        if(this.startTime === null) {
+            return 0;
+        }
+
+        return (this.finishTime ?? gameTime) - this.startTime;
+    }
+
+    /**
+     * The race time, including penalties for missed gates.
+     */
+    getRaceTime(gameTime: number): number {
+        return this.getElapsedTime(gameTime) + this.getPenaltyTime();
+    }
+
+    /**
+     * Lay out the start gate, the slalom gates and the finish line down the hill.
+     */
+    placeGates(random: Random) {
+        this.gates.push(this.createGate(0, START_GATE_Y, START_GATE_WIDTH, GATE_TYPES.START));
+
+        for(let i = 0; i < SLALOM_GATE_COUNT; i++) {
+            const side = i % 2 === 0 ? -1 : 1;
+            const x = side * SLALOM_GATE_OFFSET +
+                random.randomInt(-SLALOM_GATE_OFFSET_VARIATION, SLALOM_GATE_OFFSET_VARIATION);
+            const y = START_GATE_Y + SLALOM_GATE_SPACING * (i + 1);
+
+            this.gates.push(this.createGate(x, y, SLALOM_GATE_WIDTH, GATE_TYPES.SLALOM));
+        }
+
+        const finishY = START_GATE_Y + SLALOM_GATE_SPACING * (SLALOM_GATE_COUNT + 1);
+        this.gates.push(this.createGate(0, finishY, FINISH_GATE_WIDTH, GATE_TYPES.FINISH));
+    }
+
+    /**
+     * Create a gate. Slalom gates alternate between red and blue flags, like on a real slalom course.
+     */
+    createGate(x: number, y: number, width: number, type: GATE_TYPES): Gate {
+        const imageName = this.gates.length % 2 === 0 ? IMAGE_NAMES.FLAG_RED : IMAGE_NAMES.FLAG_BLUE;
+        return new Gate(x, y, width, type, imageName, this.imageManager, this.canvas);
+    }
+
+    /**
+     * Check whether the path the skier took this simulation step went through the next gate, or past it.
+     */
+    update(from: Position, to: Position, gameTime: number) {
+        let nextGate = this.gates[this.nextGateIndex];
+
+        while(nextGate && nextGate.isCrossedBy(from, to)) {
+            this.passGate(nextGate, nextGate.isPassedBy(from, to), gameTime);
+
+            this.nextGateIndex++;
+            nextGate = this.gates[this.nextGateIndex];
+        }
+    }
+
+    /**
+     * Start the clock, take a split time or stop the clock, depending on the type of gate.
+     */
+    passGate(gate: Gate, passed: boolean, gameTime: number) {
+        switch(gate.type) {
+            case GATE_TYPES.START:
+                this.startTime = gameTime;
+                break;
+            case GATE_TYPES.SLALOM:
+                this.splits.push({
+                    gateNumber: this.splits.length + 1,
+                    time: this.getElapsedTime(gameTime),
+                    missed: !passed
+                });
+                break;
+            case GATE_TYPES.FINISH:
+                this.finishTime = gameTime;
+                break;
+        }
+    }
+
+    /**
+     * Submit all of the gates to be drawn
+     */
+    submitGates(renderQueue: RenderQueue) {
+        this.gates.forEach((gate: Gate) => gate.submitDraw(renderQueue));
+    }
+}
\ No newline at end of file
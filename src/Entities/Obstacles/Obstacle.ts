@@ -1,38 +1,68 @@
 /**
- * An obstacle that appears on the mountain. Randomly created as one of the types defined in the OBSTACLE_TYPES array.
+ * An obstacle that appears on the mountain. Each obstacle is one of the types in the obstacle type registry, which
+ * decides how it's drawn, how big its hitbox is and how the skier and rhino interact with it. Obstacles are pooled, so
+ * an obstacle can be placed again somewhere else, as another type, once it's no longer needed.
  */
 
-import { IMAGE_NAMES } from "../../Constants";
-import { Canvas } from "../../Core/Canvas";
+import { IMAGE_NAMES, OBSTACLE_TYPES, RENDER_LAYERS } from "../../Constants";
+import { iRenderer } from "../../Interfaces/iRenderer";
+import { iObstacleType } from "../../Interfaces/iObstacleType";
 import { ImageManager } from "../../Core/ImageManager";
-import { randomInt } from '../../Core/Utils';
+import { insetShape, Shape, translateShape } from "../../Core/Collision";
 import { Entity } from "../Entity";
 
-/**
- * The different types of obstacles that can be placed in the game.
- */
-const OBSTACLE_TYPES: IMAGE_NAMES[] = [
-    IMAGE_NAMES.TREE,
-    IMAGE_NAMES.TREE_CLUSTER,
-    IMAGE_NAMES.ROCK1,
-    IMAGE_NAMES.ROCK2,
-    IMAGE_NAMES.JUMP_RAMP
-];
-
 export class Obstacle extends Entity {
+    /**
+     * The registry entry for what type of obstacle this is.
+     */
+    type: iObstacleType = OBSTACLE_TYPES[0];
+
     /**
      * The name of the current image being displayed for the obstacle.
      */
-    imageName: IMAGE_NAMES;
+    imageName: IMAGE_NAMES = this.type.image;
+
+    /**
+     * Initialize an obstacle. It isn't part of the world until it's placed.
+     */
+    constructor(imageManager: ImageManager, canvas: iRenderer) {
+        super(0, 0, imageManager, canvas);
+    }
+
+    /**
+     * Place the obstacle in the world at the given position as the given type.
+     */
+    place(x: number, y: number, type: iObstacleType) {
+        this.position.x = x;
+        this.position.y = y;
+        this.storePreviousPosition();
+
+        this.type = type;
+        this.imageName = type.image;
+    }
 
     /**
-     * Initialize an obstacle and make it a random type.
+     * The hitbox of the sprite, with each shape shrunk in by the type's hitbox inset.
      */
-    constructor(x: number, y: number, imageManager: ImageManager, canvas: Canvas) {
-        super(x, y, imageManager, canvas);
+    getHitbox(): Shape[] {
+        return super.getHitbox().map((shape: Shape) => insetShape(shape, this.type.hitboxInset));
+    }
 
-        const typeIdx = randomInt(0, OBSTACLE_TYPES.length - 1);
-        this.imageName = OBSTACLE_TYPES[typeIdx];
+    /**
+     * The part of the hitbox that can't be passed through at ground level, in world space coordinates. For a tree
+     * this is just its trunk, otherwise it's the whole hitbox.
+     */
+    getTrunkHitbox(): Shape[] {
+        return this.imageManager.getTrunkHitbox(this.imageName).map((shape: Shape) => {
+            return translateShape(shape, this.position.x, this.position.y);
+        });
+    }
+
+    /**
+     * Obstacles are drawn in the layer their type declares.
+     */
+    getRenderLayer(): RENDER_LAYERS {
+        return this.type.layer;
     }
 
     /**
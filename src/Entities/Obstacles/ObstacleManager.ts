@@ -1,13 +1,21 @@
 /**
  * Manages all of the obstacles that exist in the game world. It sets the initial world up with a random placement of
  * obstacles, places new obstacles as the skier moves throughout the world and displays them all to the screen.
+ * Obstacles that end up far outside the game window are evicted and recycled, so the number of live obstacles stays
+ * bounded no matter how long the game runs. All live obstacles are kept in a spatial grid so collision and placement
+ * checks only look at nearby obstacles. Instead of generating obstacles, a handcrafted course can be loaded.
  */
 
-import { GAME_WIDTH, GAME_HEIGHT } from '../../Constants';
-import { Canvas } from "../../Core/Canvas";
+import { iRenderer } from "../../Interfaces/iRenderer";
+import { iCourse, iCourseObstacle } from "../../Interfaces/iCourse";
 import { ImageManager } from "../../Core/ImageManager";
-import { Position, randomInt, Rect} from '../../Core/Utils';
+import { ObjectPool } from '../../Core/ObjectPool';
+import { Random } from '../../Core/Random';
+import { RenderQueue } from '../../Core/RenderQueue';
+import { SpatialGrid } from '../../Core/SpatialGrid';
+import { intersectTwoRects, Position, Rect} from '../../Core/Utils';
 import { Obstacle } from "./Obstacle";
+import { getObstacleType, pickObstacleType } from "./ObstacleTypes";
 
 /**
  * Ensures that obstacles aren't too close together
@@ -21,7 +29,7 @@ const STARTING_OBSTACLE_GAP: number = 100;
 
 /**
  * The number of starting obstacles is based upon game size, so that difficulty stays the same regardless of screen size.
- * This works to configure the starting number of obstacles.
+ * This works to configure the starting number of obstacles, and how many fill the slope revealed when the game grows.
  */
 const STARTING_OBSTACLE_REDUCER: number = 300;
 
@@ -30,12 +38,44 @@ const STARTING_OBSTACLE_REDUCER: number = 300;
  */
 const NEW_OBSTACLE_CHANCE: number = 8;
 
+/**
+ * How far outside the game window an obstacle can be before it's evicted. Large enough that obstacles don't disappear
+ * when the skier briefly heads back the way they came.
+ */
+const OBSTACLE_EVICTION_MARGIN: number = 600;
+
+/**
+ * The most obstacles that can exist in the world at once. No new obstacles are placed while at the cap.
+ */
+const MAX_LIVE_OBSTACLES: number = 300;
+
+/**
+ * How many random positions are tried when placing an obstacle before giving up, so placement can't get stuck in an
+ * area that's already full of obstacles.
+ */
+const MAX_PLACEMENT_ATTEMPTS: number = 10;
+
+/**
+ * The size of each cell in the obstacle spatial grid. A few times bigger than the largest obstacle.
+ */
+const GRID_CELL_SIZE: number = 100;
+
 export class ObstacleManager {
     /**
      * All obstacles that exist in the game
      */
     obstacles: Obstacle[] = [];
 
+    /**
+     * Evicted obstacles, waiting to be placed again
+     */
+    obstaclePool: ObjectPool<Obstacle>;
+
+    /**
+     * Spatial index of all live obstacles, kept up to date as obstacles are placed and evicted
+     */
+    obstacleGrid: SpatialGrid<Obstacle> = new SpatialGrid<Obstacle>(GRID_CELL_SIZE);
+
     /**
      * Stored reference to the ImageManager
      */
@@ -44,7 +84,12 @@ export class ObstacleManager {
     /**
      * Stored reference to the Canvas obstacles are drawn to
      */
-    canvas: Canvas;
+    canvas: iRenderer;
+
+    /**
+     * The seeded random source used for all obstacle placement, so the world can be regenerated from its seed
+     */
+    random: Random;
 
     /**
      * Adjustable value representing the chance of placing a new obstacle as the skier moves.
@@ -54,9 +99,11 @@ export class ObstacleManager {
     /**
      * Init the Obstacle Manager.
      */
-    constructor(imageManager: ImageManager, canvas: Canvas) {
+    constructor(imageManager: ImageManager, canvas: iRenderer, random: Random) {
         this.imageManager = imageManager;
         this.canvas = canvas;
+        this.random = random;
+        this.obstaclePool = new ObjectPool<Obstacle>(() => new Obstacle(this.imageManager, this.canvas));
     }
 
     getObstacles(): Obstacle[] {
@@ -64,40 +111,145 @@ export class ObstacleManager {
     }
 
     /**
-     * Loop through and draw all obstacles
+     * Return every obstacle whose bounds intersect the area
      */
-    drawObstacles() {
+    getObstaclesInRect(area: Rect): Obstacle[] {
+        return this.obstacleGrid.queryRect(area);
+    }
+
+    /**
+     * Return the obstacle closest to the position, if there's one within the radius
+     */
+    findNearestObstacle(position: Position, radius: number): Obstacle | null {
+        return this.obstacleGrid.findNearest(position, radius);
+    }
+
+    /**
+     * Loop through and submit all obstacles that are on screen to be drawn. The render queue sorts them, so they don't
+     * need to be kept in any order.
+     */
+    submitObstacles(renderQueue: RenderQueue) {
+        const visibleArea = this.canvas.getVisibleArea();
+
         this.obstacles.forEach((obstacle: Obstacle) => {
-            obstacle.draw();
+            const obstacleBounds = obstacle.getSpriteBounds();
+            if(obstacleBounds && !intersectTwoRects(visibleArea, obstacleBounds)) {
+                return;
+            }
+
+            obstacle.submitDraw(renderQueue);
         });
     }
 
+    /**
+     * Evict every obstacle that's further than OBSTACLE_EVICTION_MARGIN outside the game window and return it to the
+     * pool. The remaining obstacles keep their order.
+     */
+    removeDistantObstacles(gameWindow: Rect) {
+        const keepArea = new Rect(
+            gameWindow.left - OBSTACLE_EVICTION_MARGIN,
+            gameWindow.top - OBSTACLE_EVICTION_MARGIN,
+            gameWindow.right + OBSTACLE_EVICTION_MARGIN,
+            gameWindow.bottom + OBSTACLE_EVICTION_MARGIN
+        );
+
+        let keptCount = 0;
+        for(const obstacle of this.obstacles) {
+            const { x, y } = obstacle.getPosition();
+            const isDistant = x < keepArea.left || x > keepArea.right || y < keepArea.top || y > keepArea.bottom;
+
+            if(isDistant) {
+                this.obstacleGrid.remove(obstacle);
+                this.obstaclePool.release(obstacle);
+            }
+            else {
+                this.obstacles[keptCount] = obstacle;
+                keptCount++;
+            }
+        }
+
+        this.obstacles.length = keptCount;
+    }
+
     increaseObstaclePlacementChance() {
         if(this.newObstacleChance > 1) {
             this.newObstacleChance--;
         }
     }
 
+    /**
+     * Place every obstacle on a handcrafted course, replacing any obstacles already in the world. Courses are a fixed
+     * size, so their obstacles aren't generated or evicted as the skier moves.
+     */
+    loadCourse(course: iCourse) {
+        this.obstacles.forEach((obstacle: Obstacle) => this.obstaclePool.release(obstacle));
+        this.obstacles = [];
+        this.obstacleGrid.clear();
+
+        course.obstacles.forEach((courseObstacle: iCourseObstacle) => {
+            const obstacle = this.obstaclePool.acquire();
+            obstacle.place(courseObstacle.x, courseObstacle.y, getObstacleType(courseObstacle.type));
+            this.addObstacle(obstacle);
+        });
+    }
+
+    /**
+     * Add a placed obstacle to the world.
+     */
+    addObstacle(obstacle: Obstacle) {
+        this.obstacles.push(obstacle);
+
+        const obstacleBounds = obstacle.getBounds();
+        if(obstacleBounds) {
+            this.obstacleGrid.insert(obstacle, obstacleBounds);
+        }
+    }
+
     /**
      * Place initial obstacles. Mimics the original SkiFree game in that obstacles are only initially placed below the
-     * skier.
+     * skier. The area covered is the size of the canvas, which is the viewport the game is being played in.
      */
     placeInitialObstacles() {
-        const numberObstacles = Math.ceil((GAME_WIDTH / STARTING_OBSTACLE_REDUCER) * (GAME_HEIGHT / STARTING_OBSTACLE_REDUCER));
+        const { width, height } = this.canvas;
+        const numberObstacles = getObstacleCountForArea(width, height);
 
         const placementArea = new Rect(
-            -GAME_WIDTH / 2,
+            -width / 2,
             STARTING_OBSTACLE_GAP,
-            GAME_WIDTH / 2,
-            GAME_HEIGHT / 2
+            width / 2,
+            height / 2
         );
 
         for(let i = 0; i < numberObstacles; i++) {
             this.placeRandomObstacle(placementArea);
         }
+    }
 
-        this.obstacles.sort((obstacle1: Obstacle, obstacle2: Obstacle) => {
-            return obstacle1.getPosition().y - obstacle2.getPosition().y;
+    /**
+     * Fill any part of the game window that wasn't in the previous game window, e.g. because the game was resized to be
+     * bigger, with obstacles at the same density as the starting obstacles. The revealed area is split into a strip down
+     * each side and a strip across the top and bottom.
+     */
+    placeObstaclesInRevealedArea(gameWindow: Rect, previousGameWindow: Rect) {
+        const middleLeft = Math.max(gameWindow.left, previousGameWindow.left);
+        const middleRight = Math.min(gameWindow.right, previousGameWindow.right);
+
+        const revealedAreas: Rect[] = [
+            new Rect(gameWindow.left, gameWindow.top, previousGameWindow.left, gameWindow.bottom),
+            new Rect(previousGameWindow.right, gameWindow.top, gameWindow.right, gameWindow.bottom),
+            new Rect(middleLeft, gameWindow.top, middleRight, previousGameWindow.top),
+            new Rect(middleLeft, previousGameWindow.bottom, middleRight, gameWindow.bottom)
+        ];
+
+        revealedAreas.forEach((area: Rect) => {
+            if(area.right <= area.left || area.bottom <= area.top) {
+                return;
+            }
+
+            const numberObstacles = getObstacleCountForArea(area.right - area.left, area.bottom - area.top);
+            for(let i = 0; i < numberObstacles; i++) {
+                this.placeRandomObstacle(area);
+            }
         });
     }
 
@@ -106,7 +258,7 @@ export class ObstacleManager {
      * it has moved in and try to place a new obstacle offscreen (so player doesn't see it pop in) in that direction(s).
      */
     placeNewObstacle(gameWindow: Rect, previousGameWindow: Rect) {
-        const shouldPlaceObstacle = randomInt(1, this.newObstacleChance);
+        const shouldPlaceObstacle = this.random.randomInt(1, this.newObstacleChance);
         if(shouldPlaceObstacle !== this.newObstacleChance) {
             return;
         }
@@ -159,18 +311,27 @@ export class ObstacleManager {
     }
 
     /**
-     * Place a random obstacle somewhere within the placement area. Obstacles are distanced from each other rather than
-     * right on top of one another, so an open space must be calculated.
+     * Place a random obstacle somewhere within the placement area. Its type is picked by spawn weight. Obstacles are distanced from each other rather than
+     * right on top of one another, so an open space must be calculated. Nothing is placed if the world already has
+     * MAX_LIVE_OBSTACLES obstacles, or if no open space is found within MAX_PLACEMENT_ATTEMPTS tries.
      */
     placeRandomObstacle(placementArea: Rect) {
-        let position: Position | null;
-        do {
+        if(this.obstacles.length >= MAX_LIVE_OBSTACLES) {
+            return;
+        }
+
+        let position: Position | null = null;
+        for(let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS && !position; attempt++) {
             position = this.calculateOpenPosition(placementArea);
-        } while(!position);
+        }
 
-        const newObstacle = new Obstacle(position.x, position.y, this.imageManager, this.canvas);
+        if(!position) {
+            return;
+        }
 
-        this.obstacles.push(newObstacle);
+        const newObstacle = this.obstaclePool.acquire();
+        newObstacle.place(position.x, position.y, pickObstacleType(this.random));
+        this.addObstacle(newObstacle);
     }
 
     /**
@@ -179,26 +340,25 @@ export class ObstacleManager {
      * criteria, return null.
      */
     calculateOpenPosition(placementArea: Rect): Position | null {
-        const placementX = randomInt(placementArea.left, placementArea.right);
-        const placementY = randomInt(placementArea.top, placementArea.bottom);
-
-        const foundCollision = this.obstacles.find((obstacle: Obstacle) => {
-            const obstacleX = obstacle.getPosition().x;
-            const obstacleY = obstacle.getPosition().y;
-
-            return (
-                placementX > (obstacleX - DISTANCE_BETWEEN_OBSTACLES) &&
-                placementX < (obstacleX + DISTANCE_BETWEEN_OBSTACLES) &&
-                placementY > (obstacleY - DISTANCE_BETWEEN_OBSTACLES) &&
-                placementY < (obstacleY + DISTANCE_BETWEEN_OBSTACLES)
-            );
-        });
+        const placement = new Position(
+            this.random.randomInt(placementArea.left, placementArea.right),
+            this.random.randomInt(placementArea.top, placementArea.bottom)
+        );
+
+        const foundCollision = this.findNearestObstacle(placement, DISTANCE_BETWEEN_OBSTACLES);
 
         if(foundCollision) {
             return null;
         }
         else {
-            return new Position(placementX, placementY);
+            return placement;
         }
     }
+}
+
+/**
+ * How many obstacles an area of the slope gets at the starting density.
+ */
+function getObstacleCountForArea(width: number, height: number): number {
+    return Math.ceil((width / STARTING_OBSTACLE_REDUCER) * (height / STARTING_OBSTACLE_REDUCER));
 }
\ No newline at end of file
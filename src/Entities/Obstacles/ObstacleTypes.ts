@@ -0,0 +1,41 @@
+/**
+ * Lookups into the obstacle type registry, OBSTACLE_TYPES. Types are picked by their spawn weight using the world's
+ * seeded random source, so the types placed can be reproduced.
+ */
+
+import { OBSTACLE_NAMES, OBSTACLE_TYPES } from "../../Constants";
+import { iObstacleType } from "../../Interfaces/iObstacleType";
+import { Random } from "../../Core/Random";
+
+const TOTAL_SPAWN_WEIGHT: number = OBSTACLE_TYPES.reduce((total: number, obstacleType: iObstacleType) => {
+    return total + obstacleType.spawnWeight;
+}, 0);
+
+/**
+ * Get the registry entry for an obstacle type. Throws an error if there isn't one, as every obstacle name should be
+ * registered.
+ */
+export function getObstacleType(name: OBSTACLE_NAMES): iObstacleType {
+    const obstacleType = OBSTACLE_TYPES.find((candidate: iObstacleType) => candidate.name === name);
+    if(!obstacleType) {
+        throw new Error(`Obstacle type ${name} isn't registered`);
+    }
+
+    return obstacleType;
+}
+
+/**
+ * Pick a random obstacle type, with each type's chance of being picked proportional to its spawn weight.
+ */
+export function pickObstacleType(random: Random): iObstacleType {
+    let remainingWeight = random.next() * TOTAL_SPAWN_WEIGHT;
+
+    for(const obstacleType of OBSTACLE_TYPES) {
+        remainingWeight -= obstacleType.spawnWeight;
+        if(remainingWeight < 0) {
+            return obstacleType;
+        }
+    }
+
+    return OBSTACLE_TYPES[OBSTACLE_TYPES.length - 1];
+}
\ No newline at end of file
@@ -1,45 +1,88 @@
 /**
  * The rhino chases after a target and eats the target when they come in contact with one another. Also has a few
- * different animations that it cycles between depending upon the rhino's state.
+ * different animations that it cycles between depending upon the rhino's state. Trees and rocks are in the rhino's way,
+ * so it finds a path around them to the target, replanning regularly as the target moves. It runs over anything else,
+ * but is slowed down while doing so.
  */
 
-import { IMAGE_NAMES, SPEED_INCREASE_THRESHOLD } from "../Constants";
+import {
+    ANIMATION_EVENTS,
+    ANIMATION_FRAME_SPEED_MS,
+    ANIMATION_MODES,
+    CAUSES_OF_DEATH,
+    IMAGE_NAMES,
+    PARTICLE_EFFECT_NAMES,
+    SIMULATION_STEP_SECONDS,
+    SOUND_NAMES,
+    SPEED_INCREASE_PER_THRESHOLD,
+    SPEED_INCREASE_THRESHOLD
+} from "../Constants";
 import { Entity } from "./Entity";
 import { Animation } from "../Core/Animation";
-import { Canvas } from "../Core/Canvas";
+import { iAnimationFrame } from "../Interfaces/iAnimationFrame";
+import { iRenderer } from "../Interfaces/iRenderer";
+import { AudioManager } from "../Core/AudioManager";
 import { ImageManager } from "../Core/ImageManager";
-import { intersectTwoRects, getDirectionVector } from "../Core/Utils";
+import { getDirectionVector, Position, Rect } from "../Core/Utils";
+import { getShapesBounds, intersectHitboxes, Shape, translateShape } from "../Core/Collision";
+import { Pathfinder } from "../Core/Pathfinder";
+import { StateMachine } from "../Core/StateMachine";
+import { ObstacleManager } from "./Obstacles/ObstacleManager";
+import { Obstacle } from "./Obstacles/Obstacle";
 
 /**
- * The rhino starts running at this speed. Saved in case speed needs to be reset at any point.
+ * The rhino starts running at this speed, in world units per second. Saved in case speed needs to be reset at any point.
  */
-const STARTING_SPEED: number = 5.2;
+const STARTING_SPEED: number = 312;
+
+/**
+ * The rhino's speed is multiplied by this while it's trampling through an obstacle.
+ */
+const TRAMPLING_SPEED_REDUCER: number = 0.6;
+
+/**
+ * The size of the cells the rhino plans its path over, and how many cells out from the rhino it looks, in world units
+ * and cells. A target further away than that is headed for through the edge of the searched area.
+ */
+const PATH_CELL_SIZE: number = 20;
+const PATH_SEARCH_RADIUS: number = 30;
+
+/**
+ * How many simulation steps the rhino follows a path for before planning a new one towards where the target is now.
+ */
+const REPLAN_INTERVAL_STEPS: number = 10;
+
+/**
+ * How far below the rhino's position its feet kick up dust while it runs.
+ */
+const FEET_OFFSET_Y: number = 12;
 
 /**
  * The different states the rhino can be in.
  */
-enum STATES {
+export enum STATES {
     STATE_RUNNING = 'running',
     STATE_EATING = 'eating',
     STATE_CELEBRATING = 'celebrating'
 };
 
 /**
- * Sequences of images that comprise the animations for the different states of the rhino.
+ * Sequences of frames that comprise the animations for the different states of the rhino. The rhino opens wide and
+ * lingers on the bite, chomping down on the third eating frame, and savours the last one before it celebrates.
  */
-const IMAGES_RUNNING: IMAGE_NAMES[] = [
-    IMAGE_NAMES.RHINO_RUN1,
-    IMAGE_NAMES.RHINO_RUN2
+const FRAMES_RUNNING: iAnimationFrame[] = [
+    { image: IMAGE_NAMES.RHINO_RUN1, durationMs: ANIMATION_FRAME_SPEED_MS },
+    { image: IMAGE_NAMES.RHINO_RUN2, durationMs: ANIMATION_FRAME_SPEED_MS }
 ];
-const IMAGES_EATING: IMAGE_NAMES[] = [
-    IMAGE_NAMES.RHINO_EAT1,
-    IMAGE_NAMES.RHINO_EAT2,
-    IMAGE_NAMES.RHINO_EAT3,
-    IMAGE_NAMES.RHINO_EAT4
+const FRAMES_EATING: iAnimationFrame[] = [
+    { image: IMAGE_NAMES.RHINO_EAT1, durationMs: 200 },
+    { image: IMAGE_NAMES.RHINO_EAT2, durationMs: 200 },
+    { image: IMAGE_NAMES.RHINO_EAT3, durationMs: 300, event: ANIMATION_EVENTS.RHINO_CHOMP },
+    { image: IMAGE_NAMES.RHINO_EAT4, durationMs: 500 }
 ];
-const IMAGES_CELEBRATING: IMAGE_NAMES[] = [
-    IMAGE_NAMES.RHINO_CELEBRATE1,
-    IMAGE_NAMES.RHINO_CELEBRATE2
+const FRAMES_CELEBRATING: iAnimationFrame[] = [
+    { image: IMAGE_NAMES.RHINO_CELEBRATE1, durationMs: ANIMATION_FRAME_SPEED_MS },
+    { image: IMAGE_NAMES.RHINO_CELEBRATE2, durationMs: ANIMATION_FRAME_SPEED_MS }
 ];
 
 export class Rhino extends Entity {
@@ -49,72 +92,143 @@ export class Rhino extends Entity {
     imageName: IMAGE_NAMES = IMAGE_NAMES.RHINO;
 
     /**
-     * What state the rhino is currently in.
+     * What state the rhino is currently in, and how it can move between states.
      */
-    state: STATES = STATES.STATE_RUNNING;
+    stateMachine: StateMachine<STATES>;
 
     /**
      * How fast the rhino is currently moving in the game world.
      */
     speed: number = STARTING_SPEED;
 
+    /**
+     * Stored reference to the ObstacleManager
+     */
+    obstacleManager: ObstacleManager;
+
+    /**
+     * Stored reference to the AudioManager, to play the rhino's sound effects
+     */
+    audioManager: AudioManager;
+
+    /**
+     * Finds the rhino's way around the obstacles in its way
+     */
+    pathfinder: Pathfinder;
+
+    /**
+     * The positions the rhino is heading for in turn on its way to the target
+     */
+    path: Position[] = [];
+
+    /**
+     * How many more steps the current path is followed for before a new one is planned
+     */
+    stepsUntilReplan: number = 0;
+
+    /**
+     * The obstacles the target is overlapping, e.g. the tree they crashed into. The rhino can go into these to get them.
+     */
+    targetObstacles: Obstacle[] = [];
+
     /**
      * Initialize the rhino, get the animations setup and set the starting animation which will be based upon the
      * starting state.
      */
-    constructor(x: number, y: number, imageManager: ImageManager, canvas: Canvas) {
+    constructor(x: number, y: number, imageManager: ImageManager, audioManager: AudioManager, obstacleManager: ObstacleManager, canvas: iRenderer) {
         super(x, y, imageManager, canvas);
+        this.audioManager = audioManager;
+        this.obstacleManager = obstacleManager;
+        this.pathfinder = new Pathfinder(PATH_CELL_SIZE, PATH_SEARCH_RADIUS, this.isAreaBlocked.bind(this));
+        this.stateMachine = this.createStateMachine();
         this.setupAnimations();
-        this.setAnimation(this.state);
+        this.setAnimation(this.stateMachine.getState());
     }
 
     /**
-     * Create and store the animations.
+     * Create the state machine the rhino moves between states with. Each state has its own animation, started as the
+     * state is entered. The rhino eats what it catches while running, and only celebrates once it's finished eating. It
+     * can be set running again from any state, including running, when it's spawned.
+     */
+    createStateMachine(): StateMachine<STATES> {
+        return new StateMachine<STATES>(
+            STATES.STATE_RUNNING,
+            {
+                [STATES.STATE_RUNNING]: {
+                    onEnter: () => this.setAnimation(STATES.STATE_RUNNING)
+                },
+                [STATES.STATE_EATING]: {
+                    onEnter: () => this.setAnimation(STATES.STATE_EATING)
+                },
+                [STATES.STATE_CELEBRATING]: {
+                    onEnter: () => this.setAnimation(STATES.STATE_CELEBRATING)
+                }
+            },
+            [
+                { from: STATES.STATE_RUNNING, to: STATES.STATE_RUNNING },
+                { from: STATES.STATE_RUNNING, to: STATES.STATE_EATING },
+                { from: STATES.STATE_EATING, to: STATES.STATE_RUNNING },
+                { from: STATES.STATE_EATING, to: STATES.STATE_CELEBRATING, guard: () => !this.curAnimation },
+                { from: STATES.STATE_CELEBRATING, to: STATES.STATE_RUNNING }
+            ]
+        );
+    }
+
+    /**
+     * Create and store the animations. The rhino's legs keep up with how fast it's running, and it makes its eating
+     * sound as it chomps down.
      */
     setupAnimations(): void {
         this.animations[STATES.STATE_RUNNING] = new Animation(
-            IMAGES_RUNNING,
-            true
+            FRAMES_RUNNING,
+            ANIMATION_MODES.LOOP,
+            { baseSpeed: STARTING_SPEED }
         );
 
-        this.animations[STATES.STATE_EATING] = new Animation(
-            IMAGES_EATING,
-            false,
-            this.celebrate.bind(this)
-        );
+        this.animations[STATES.STATE_EATING] = new Animation(FRAMES_EATING, ANIMATION_MODES.ONCE)
+            .onEvent(ANIMATION_EVENTS.RHINO_CHOMP, () => {
+                this.audioManager.playEffect(SOUND_NAMES.RHINO_EAT, this.position);
+            })
+            .onComplete(() => this.celebrate());
 
-        this.animations[STATES.STATE_CELEBRATING] = new Animation(
-            IMAGES_CELEBRATING,
-            true
-        );
+        this.animations[STATES.STATE_CELEBRATING] = new Animation(FRAMES_CELEBRATING, ANIMATION_MODES.LOOP);
     }
 
     /**
-     * Set the state and then set a new current animation based upon that state.
+     * Put the rhino at a new position and set it running after its target from there, forgetting any path it had. It
+     * roars as it sets off.
      */
-    setState(newState: STATES) {
-        this.state = newState;
-        this.setAnimation(this.state);
+    spawn(x: number, y: number) {
+        this.position = new Position(x, y);
+        this.previousPosition = new Position(x, y);
+        this.path = [];
+        this.stepsUntilReplan = 0;
+        this.stateMachine.transition(STATES.STATE_RUNNING);
+
+        this.audioManager.playEffect(SOUND_NAMES.RHINO_ROAR, this.position);
     }
 
     /**
      * Is the rhino currently in the running state.
      */
     isRunning(): boolean {
-        return this.state === STATES.STATE_RUNNING;
+        return this.stateMachine.is(STATES.STATE_RUNNING);
     }
 
     /**
-     * Update the rhino by moving it, seeing if it caught its target and then update the animation if needed. Currently
-     * it only moves if it's running. Increase the rhino speed at steady intervals.
+     * Update the rhino by moving it, kicking up dust as it goes, seeing if it caught its target and then update the
+     * animation if needed. Currently it only moves if it's running. Increase the rhino speed at steady intervals.
      */
-    update(gameTime: number, currentScore: number, target: Entity) {
+    update(currentScore: number, target: Entity) {
+        this.storePreviousPosition();
+
         if(this.isRunning()) {
             this.move(target);
+            this.emitParticles(PARTICLE_EFFECT_NAMES.RHINO_DUST, 0, FEET_OFFSET_Y);
             this.checkIfCaughtTarget(target);
         }
 
-        this.animate(gameTime);
+        this.animate(this.speed);
         this.increaseSpeedIfThresholdMet(currentScore);
     }
 
@@ -123,13 +237,27 @@ export class Rhino extends Entity {
      */
     increaseSpeedIfThresholdMet(currentScore: number) {
         if(currentScore % SPEED_INCREASE_THRESHOLD === 0) {
-            this.speed++;
+            this.speed += SPEED_INCREASE_PER_THRESHOLD;
         }
     }
 
     /**
-     * Move the rhino if it's in the running state. The rhino moves by going directly towards its target, disregarding
-     * any obstacles.
+     * Is the rhino currently overlapping any obstacles that slow down anything ploughing through them
+     */
+    isTrampling(): boolean {
+        const rhinoBounds = this.getBounds();
+        if(!rhinoBounds) {
+            return false;
+        }
+
+        return this.obstacleManager.getObstaclesInRect(rhinoBounds).some((obstacle: Obstacle) => {
+            return obstacle.type.slowsDown && this.collidesWith(obstacle);
+        });
+    }
+
+    /**
+     * Move the rhino if it's in the running state. The rhino follows its path towards the target, planning a new one
+     * every few steps. Once it's at the end of the path, it heads directly for the target.
      */
     move(target: Entity) {
         if(!this.isRunning()) {
@@ -137,41 +265,134 @@ export class Rhino extends Entity {
         }
 
         const targetPosition = target.getPosition();
-        const moveDirection = getDirectionVector(this.position.x, this.position.y, targetPosition.x, targetPosition.y);
+        this.targetObstacles = this.getBlockingObstacles(target.getHitbox());
+
+        if(this.stepsUntilReplan <= 0) {
+            this.path = this.pathfinder.findPath(this.position, targetPosition);
+            this.stepsUntilReplan = REPLAN_INTERVAL_STEPS;
+        }
+        this.stepsUntilReplan--;
+
+        const currentSpeed = this.isTrampling() ? this.speed * TRAMPLING_SPEED_REDUCER : this.speed;
+        let stepDistance = currentSpeed * SIMULATION_STEP_SECONDS;
 
-        this.position.x += moveDirection.x * this.speed;
-        this.position.y += moveDirection.y * this.speed;
+        while(this.path.length && stepDistance > 0) {
+            const waypoint = this.path[0];
+            const waypointDistance = Math.hypot(waypoint.x - this.position.x, waypoint.y - this.position.y);
+            if(waypointDistance > stepDistance) {
+                break;
+            }
+
+            if(waypointDistance && !this.moveTowards(waypoint, waypointDistance)) {
+                this.path = [];
+                return;
+            }
+
+            stepDistance -= waypointDistance;
+            this.path.shift();
+        }
+
+        const destination = this.path.length ? this.path[0] : targetPosition;
+        this.moveTowards(destination, stepDistance);
     }
 
     /**
-     * Does the rhino collide with its target. If so, trigger the target as caught.
+     * Move the rhino towards the destination by the distance given. If that would run it into an obstacle in its way,
+     * slide along the obstacle instead, moving only across or only down the slope. Obstacles the rhino is already
+     * overlapping, such as one placed on top of where it appeared, don't stop it, so it can't get stuck inside them.
+     * Returns whether it moved at all.
      */
-    checkIfCaughtTarget(target: Entity) {
+    moveTowards(destination: Position, distance: number): boolean {
+        const direction = getDirectionVector(this.position.x, this.position.y, destination.x, destination.y);
+        const moves = [
+            { x: direction.x * distance, y: direction.y * distance },
+            { x: Math.sign(direction.x) * distance, y: 0 },
+            { x: 0, y: Math.sign(direction.y) * distance }
+        ];
+
+        const hitbox = this.getHitbox();
+        const overlapping = this.getBlockingObstacles(hitbox);
+        for(const move of moves) {
+            if(move.x === 0 && move.y === 0) {
+                continue;
+            }
+
+            const movedHitbox = hitbox.map((shape: Shape) => translateShape(shape, move.x, move.y));
+            const blocking = this.getBlockingObstacles(movedHitbox).filter((obstacle: Obstacle) => {
+                return !overlapping.includes(obstacle);
+            });
+            if(!blocking.length) {
+                this.position.x += move.x;
+                this.position.y += move.y;
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Would the rhino's hitbox overlap any obstacles in its way if it were anywhere within the area. Used to decide
+     * which cells the rhino can plan a path through.
+     */
+    isAreaBlocked(area: Rect): boolean {
         const rhinoBounds = this.getBounds();
-        const targetBounds = target.getBounds();
-        if(!rhinoBounds || !targetBounds) {
-            return;
+        if(!rhinoBounds) {
+            return false;
         }
 
-        if (intersectTwoRects(rhinoBounds, targetBounds)) {
+        const sweptBounds = new Rect(
+            area.left - (this.position.x - rhinoBounds.left),
+            area.top - (this.position.y - rhinoBounds.top),
+            area.right + (rhinoBounds.right - this.position.x),
+            area.bottom + (rhinoBounds.bottom - this.position.y)
+        );
+
+        return this.getBlockingObstacles([sweptBounds]).length > 0;
+    }
+
+    /**
+     * Return the obstacles in the rhino's way that the hitbox overlaps. Obstacles the target is overlapping aren't in the
+     * way.
+     */
+    getBlockingObstacles(hitbox: Shape[]): Obstacle[] {
+        const hitboxBounds = getShapesBounds(hitbox);
+        if(!hitboxBounds) {
+            return [];
+        }
+
+        return this.obstacleManager.getObstaclesInRect(hitboxBounds).filter((obstacle: Obstacle) => {
+            return obstacle.type.blocksRhino && !this.targetObstacles.includes(obstacle) &&
+                intersectHitboxes(hitbox, obstacle.getHitbox());
+        });
+    }
+
+    /**
+     * Does the rhino's hitbox touch its target's hitbox. If so, trigger the target as caught.
+     */
+    checkIfCaughtTarget(target: Entity) {
+        if (this.collidesWith(target)) {
             this.caughtTarget(target);
         }
     }
 
     /**
-     * The target was caught, so trigger its death and set the rhino to the eating state.
+     * The target was caught, so set the rhino to the eating state and trigger the target's death. Only a running rhino
+     * can catch anything.
      */
     caughtTarget(target: Entity) {
-        target.die();
+        if(!this.stateMachine.transition(STATES.STATE_EATING)) {
+            return;
+        }
 
-        this.setState(STATES.STATE_EATING);
+        target.die(CAUSES_OF_DEATH.EATEN_BY_RHINO);
     }
 
     /**
-     * The rhino has won, trigger the celebration state.
+     * The rhino has won and finished eating, trigger the celebration state.
      */
     celebrate() {
-        this.setState(STATES.STATE_CELEBRATING);
+        this.stateMachine.transition(STATES.STATE_CELEBRATING);
     }
 
     /**
@@ -0,0 +1,250 @@
+/**
+ * Decides when the rhino turns up and when it gives up. The rhino doesn't chase from the very start: it appears once the
+ * skier has travelled far enough or enough time has passed, after an on screen warning. While it's off screen, an
+ * arrow at the edge of the screen points to it. If the skier stays far enough ahead of it for long enough, the rhino
+ * gives up and leaves, and the next one is on its way.
+ */
+
+import { iRenderer } from "../Interfaces/iRenderer";
+import { RenderQueue } from "../Core/RenderQueue";
+import { Position } from "../Core/Utils";
+import { Entity } from "./Entity";
+import { Rhino } from "./Rhino";
+
+/**
+ * The rhino appears once the skier has travelled this far down the slope, or this much time has passed, since the run
+ * started or the last rhino gave up, whichever comes first.
+ */
+const SPAWN_DISTANCE: number = 2000;
+const SPAWN_TIME_MS: number = 20000;
+
+/**
+ * How long the warning is shown before the rhino appears.
+ */
+const WARNING_DURATION_MS: number = 2000;
+
+/**
+ * Where the rhino appears relative to the skier, in world units. Just off the top of the screen, so it's behind them.
+ */
+const SPAWN_OFFSET: Position = new Position(-300, -900);
+
+/**
+ * The rhino gives up if the skier stays further than this away from it for this long.
+ */
+const GIVE_UP_DISTANCE: number = 1500;
+const GIVE_UP_TIME_MS: number = 5000;
+
+/**
+ * How long the message saying the rhino gave up is shown for.
+ */
+const ESCAPE_MESSAGE_DURATION_MS: number = 3000;
+
+/**
+ * The layout of the warning and escape messages, drawn relative to the top center of the screen.
+ */
+const MESSAGE_OFFSET_X: number = 180;
+const MESSAGE_Y: number = 60;
+const MESSAGE_FONT: string = 'bold 32px monospace';
+
+/**
+ * The size of the arrow pointing to the rhino while it's off screen, and how far in from the edge of the screen it's
+ * drawn.
+ */
+const ARROW_LENGTH: number = 30;
+const ARROW_WIDTH: number = 24;
+const ARROW_MARGIN: number = 20;
+
+/**
+ * The different states the director can be in.
+ */
+enum STATES {
+    STATE_WAITING = 'waiting',
+    STATE_WARNING = 'warning',
+    STATE_CHASING = 'chasing'
+};
+
+export class RhinoDirector {
+    /**
+     * The rhino being directed. It's kept between chases, so it doesn't lose the speed it's built up.
+     */
+    rhino: Rhino;
+
+    /**
+     * What state the director is currently in.
+     */
+    state: STATES = STATES.STATE_WAITING;
+
+    /**
+     * How far down the slope the skier was and the game time when the wait for the next rhino started
+     */
+    waitStartY: number = 0;
+    waitStartTime: number = 0;
+
+    /**
+     * The game time the warning was shown at
+     */
+    warningTime: number = 0;
+
+    /**
+     * The game time the skier got far enough ahead of the rhino, or null if they aren't
+     */
+    escapingSince: number | null = null;
+
+    /**
+     * The game time the last rhino gave up at, or null if none have
+     */
+    escapeTime: number | null = null;
+
+    canvas: iRenderer;
+
+    /**
+     * A course has a fixed rhino spawn. If one is given, the rhino appears there as soon as the run starts, instead of
+     * near the skier later on.
+     */
+    constructor(rhino: Rhino, canvas: iRenderer, courseSpawn: Position | null = null) {
+        this.rhino = rhino;
+        this.canvas = canvas;
+
+        if(courseSpawn) {
+            this.spawnRhino(courseSpawn.x, courseSpawn.y);
+        }
+    }
+
+    /**
+     * Is the rhino out chasing the skier
+     */
+    isChasing(): boolean {
+        return this.state === STATES.STATE_CHASING;
+    }
+
+    /**
+     * Is the warning that the rhino is coming showing
+     */
+    isWarning(): boolean {
+        return this.state === STATES.STATE_WARNING;
+    }
+
+    /**
+     * Update the rhino if it's chasing, then decide whether it should appear or give up. The rhino keeps getting faster
+     * as the score goes up, even while it isn't around.
+     */
+    update(gameTime: number, currentScore: number, target: Entity) {
+        if(this.isChasing()) {
+            this.rhino.update(currentScore, target);
+        } else {
+            this.rhino.increaseSpeedIfThresholdMet(currentScore);
+        }
+
+        const targetPosition = target.getPosition();
+        switch(this.state) {
+            case STATES.STATE_WAITING:
+                if(targetPosition.y - this.waitStartY >= SPAWN_DISTANCE ||
+                    gameTime - this.waitStartTime >= SPAWN_TIME_MS) {
+                    this.state = STATES.STATE_WARNING;
+                    this.warningTime = gameTime;
+                }
+                break;
+            case STATES.STATE_WARNING:
+                if(gameTime - this.warningTime >= WARNING_DURATION_MS) {
+                    this.spawnRhino(targetPosition.x + SPAWN_OFFSET.x, targetPosition.y + SPAWN_OFFSET.y);
+                }
+                break;
+            case STATES.STATE_CHASING:
+                this.checkIfRhinoGivesUp(gameTime, targetPosition);
+                break;
+        }
+    }
+
+    /**
+     * Set the rhino chasing from the position given.
+     */
+    spawnRhino(x: number, y: number) {
+        this.rhino.spawn(x, y);
+        this.state = STATES.STATE_CHASING;
+        this.escapingSince = null;
+    }
+
+    /**
+     * The rhino gives up once the skier has stayed far enough away from it for long enough. It never gives up once it
+     * has caught them.
+     */
+    checkIfRhinoGivesUp(gameTime: number, targetPosition: Position) {
+        const rhinoPosition = this.rhino.getPosition();
+        const distance = Math.hypot(targetPosition.x - rhinoPosition.x, targetPosition.y - rhinoPosition.y);
+        if(!this.rhino.isRunning() || distance < GIVE_UP_DISTANCE) {
+            this.escapingSince = null;
+            return;
+        }
+
+        if(this.escapingSince === null) {
+            this.escapingSince = gameTime;
+        }
+
+        if(gameTime - this.escapingSince >= GIVE_UP_TIME_MS) {
+            this.state = STATES.STATE_WAITING;
+            this.escapeTime = gameTime;
+            this.waitStartTime = gameTime;
+            this.waitStartY = targetPosition.y;
+        }
+    }
+
+    /**
+     * Submit the rhino to be drawn if it's chasing.
+     */
+    submitRhino(renderQueue: RenderQueue, alpha: number) {
+        if(this.isChasing()) {
+            this.rhino.submitDraw(renderQueue, alpha);
+        }
+    }
+
+    /**
+     * Draw the warning that the rhino is coming, the arrow pointing to it while it's off screen, or the message saying
+     * the last one gave up.
+     */
+    drawWarnings(gameTime: number, alpha: number) {
+        const x = (this.canvas.width / 2) - MESSAGE_OFFSET_X;
+
+        if(this.isWarning()) {
+            this.canvas.drawText('The rhino is coming!', x, MESSAGE_Y, MESSAGE_FONT);
+        }
+        else if(this.isChasing()) {
+            this.drawRhinoArrow(alpha);
+        }
+        else if(this.escapeTime !== null && gameTime - this.escapeTime < ESCAPE_MESSAGE_DURATION_MS) {
+            this.canvas.drawText('The rhino gave up!', x, MESSAGE_Y, MESSAGE_FONT);
+        }
+    }
+
+    /**
+     * If the rhino is off screen, draw an arrow at the edge of the screen pointing towards it.
+     */
+    drawRhinoArrow(alpha: number) {
+        const rhinoPosition = this.rhino.getInterpolatedPosition(alpha);
+        const { x: rhinoX, y: rhinoY } = this.canvas.worldToScreen(rhinoPosition.x, rhinoPosition.y);
+        if(rhinoX >= 0 && rhinoX <= this.canvas.width && rhinoY >= 0 && rhinoY <= this.canvas.height) {
+            return;
+        }
+
+        // Follow the line from the center of the screen to the rhino until it meets the edge of the screen
+        const centerX = this.canvas.width / 2;
+        const centerY = this.canvas.height / 2;
+        const distance = Math.hypot(rhinoX - centerX, rhinoY - centerY);
+        const directionX = (rhinoX - centerX) / distance;
+        const directionY = (rhinoY - centerY) / distance;
+        const edgeScale = Math.min(
+            directionX ? (centerX - ARROW_MARGIN) / Math.abs(directionX) : Infinity,
+            directionY ? (centerY - ARROW_MARGIN) / Math.abs(directionY) : Infinity
+        );
+
+        const tip = new Position(centerX + directionX * edgeScale, centerY + directionY * edgeScale);
+        const baseX = tip.x - directionX * ARROW_LENGTH;
+        const baseY = tip.y - directionY * ARROW_LENGTH;
+        const halfWidth = ARROW_WIDTH / 2;
+
+        this.canvas.drawPolygon([
+            tip,
+            new Position(baseX - directionY * halfWidth, baseY + directionX * halfWidth),
+            new Position(baseX + directionY * halfWidth, baseY - directionX * halfWidth)
+        ]);
+    }
+}
\ No newline at end of file
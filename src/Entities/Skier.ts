@@ -4,34 +4,64 @@
  */
 
 import { 
+    ACTIONS,
+    ANIMATION_EVENTS,
+    ANIMATION_MODES,
+    CAUSES_OF_DEATH,
     IMAGE_NAMES,
     DIAGONAL_SPEED_REDUCER,
-    KEYS,
+    PARTICLE_EFFECT_NAMES,
+    RENDER_LAYERS,
+    SIMULATION_STEP_SECONDS,
+    SOUND_NAMES,
+    SPEED_INCREASE_PER_THRESHOLD,
     SPEED_INCREASE_THRESHOLD
 } from "../Constants";
 import { Entity } from "./Entity";
 import { Animation } from "../Core/Animation";
-import { Canvas } from "../Core/Canvas";
+import { iAnimationFrame } from "../Interfaces/iAnimationFrame";
+import { iRenderer } from "../Interfaces/iRenderer";
+import { iObstacleType } from "../Interfaces/iObstacleType";
+import { AudioManager } from "../Core/AudioManager";
 import { ImageManager } from "../Core/ImageManager";
-import { intersectTwoRects, Rect } from "../Core/Utils";
+import { intersectHitboxes } from "../Core/Collision";
+import { StateMachine } from "../Core/StateMachine";
 import { ObstacleManager } from "./Obstacles/ObstacleManager";
 import {Obstacle} from "./Obstacles/Obstacle";
 
 /**
- * The skier starts running at this speed. Saved in case speed needs to be reset at any point.
+ * The skier starts running at this speed, in world units per second. Saved in case speed needs to be reset at any point.
  */
-const STARTING_SPEED: number = 5;
+const STARTING_SPEED: number = 300;
+
+/**
+ * How far the skier shuffles for each key press when moving completely horizontally or up the hill. These moves happen
+ * on input rather than every simulation step.
+ */
+const STEP_DISTANCE: number = 5;
 
 /**
  * The different states the skier can be in.
  */
-enum STATES {
+export enum STATES {
     STATE_SKIING = 'skiing',
     STATE_JUMPING = 'jumping',
     STATE_CRASHED = 'crashed',
     STATE_DEAD = 'dead'
 };
 
+/**
+ * The actions the skier carries out in each state. In the air the skier is committed to the jump, so they can't turn,
+ * shuffle or jump again until they land. Once crashed, turning left or right is the only way to recover. The dead
+ * don't do anything.
+ */
+const STATE_ACTIONS: {[state in STATES]: ACTIONS[]} = {
+    [STATES.STATE_SKIING]: [ACTIONS.JUMP, ACTIONS.TURN_LEFT, ACTIONS.TURN_RIGHT, ACTIONS.UP, ACTIONS.DOWN],
+    [STATES.STATE_JUMPING]: [],
+    [STATES.STATE_CRASHED]: [ACTIONS.TURN_LEFT, ACTIONS.TURN_RIGHT],
+    [STATES.STATE_DEAD]: []
+};
+
 /**
  * The different directions the skier can be facing.
  */
@@ -53,24 +83,27 @@ const DIRECTION_IMAGES: {[key: number]: IMAGE_NAMES} = {
 };
 
 /**
- * A sequence of images that make up the animation for the skier's jumping action
+ * A sequence of frames that make up the animation for the skier's jumping action. The skier springs off quickly, hangs
+ * in the air through the flip and kicks up dust as they come down on the last frame. How long the frames take in total
+ * is how long the skier is in the air.
  */
-const IMAGES_JUMPING: IMAGE_NAMES[] = [
-    IMAGE_NAMES.SKIER_JUMP1,
-    IMAGE_NAMES.SKIER_JUMP2,
-    IMAGE_NAMES.SKIER_JUMP3,
-    IMAGE_NAMES.SKIER_JUMP4,
-    IMAGE_NAMES.SKIER_JUMP5,
+const FRAMES_JUMPING: iAnimationFrame[] = [
+    { image: IMAGE_NAMES.SKIER_JUMP1, durationMs: 200 },
+    { image: IMAGE_NAMES.SKIER_JUMP2, durationMs: 200 },
+    { image: IMAGE_NAMES.SKIER_JUMP3, durationMs: 300 },
+    { image: IMAGE_NAMES.SKIER_JUMP4, durationMs: 300 },
+    { image: IMAGE_NAMES.SKIER_JUMP5, durationMs: 250, event: ANIMATION_EVENTS.LANDING_DUST }
 ];
 
 /**
- * A list of all the obstacles that the skier can feasibly jump over
+ * How much the skier is slowed down while skiing through an obstacle that slows them down rather than crashing them.
  */
-const JUMPABLE_OBSTACLES: IMAGE_NAMES[] = [
-    IMAGE_NAMES.ROCK1,
-    IMAGE_NAMES.ROCK2,
-    IMAGE_NAMES.JUMP_RAMP,
-];
+const SLOWED_DOWN_SPEED_REDUCER: number = 0.6;
+
+/**
+ * How far below the skier's position their skis touch the snow, where the ski trail and snow spray come from.
+ */
+const SKI_OFFSET_Y: number = 12;
 
 export class Skier extends Entity {
 
@@ -80,9 +113,9 @@ export class Skier extends Entity {
     imageName: IMAGE_NAMES = IMAGE_NAMES.SKIER_DOWN;
 
     /**
-     * What state the skier is currently in.
+     * What state the skier is currently in, and how they can move between states.
      */
-    state: STATES = STATES.STATE_SKIING;
+    stateMachine: StateMachine<STATES>;
 
     /**
      * What direction the skier is currently facing.
@@ -94,47 +127,100 @@ export class Skier extends Entity {
      */
     speed: number = STARTING_SPEED;
 
+    /**
+     * Is the skier currently skiing through an obstacle that slows them down.
+     */
+    slowedDown: boolean = false;
+
+    /**
+     * What killed the skier, if they're dead.
+     */
+    causeOfDeath: CAUSES_OF_DEATH | null = null;
+
     /**
      * Stored reference to the ObstacleManager
      */
     obstacleManager: ObstacleManager;
 
+    /**
+     * Stored reference to the AudioManager, to play the skier's sound effects
+     */
+    audioManager: AudioManager;
+
     /**
      * Init the skier.
      */
-    constructor(x: number, y: number, imageManager: ImageManager, obstacleManager: ObstacleManager, canvas: Canvas) {
+    constructor(x: number, y: number, imageManager: ImageManager, audioManager: AudioManager, obstacleManager: ObstacleManager, canvas: iRenderer) {
         super(x, y, imageManager, canvas);
         this.setupAnimations();
+        this.stateMachine = this.createStateMachine();
 
+        this.audioManager = audioManager;
         this.obstacleManager = obstacleManager;
     }
 
+    /**
+     * Create the state machine the skier moves between states with. The skier can take off, crash or die while skiing.
+     * In the air they can crash into anything they can't clear or be caught, and they only land once the jump has
+     * played out. A crashed skier can only get back to skiing, or be caught. There's no coming back from being dead.
+     */
+    createStateMachine(): StateMachine<STATES> {
+        return new StateMachine<STATES>(
+            STATES.STATE_SKIING,
+            {
+                [STATES.STATE_SKIING]: {},
+                [STATES.STATE_JUMPING]: {
+                    onEnter: () => this.takeOff(),
+                    onExit: () => this.stopAnimation()
+                },
+                [STATES.STATE_CRASHED]: {
+                    onEnter: () => this.crashed()
+                },
+                [STATES.STATE_DEAD]: {
+                    onEnter: () => {
+                        this.speed = 0;
+                    }
+                }
+            },
+            [
+                { from: STATES.STATE_SKIING, to: STATES.STATE_JUMPING },
+                { from: STATES.STATE_SKIING, to: STATES.STATE_CRASHED },
+                { from: STATES.STATE_SKIING, to: STATES.STATE_DEAD },
+                { from: STATES.STATE_JUMPING, to: STATES.STATE_SKIING, guard: () => !this.curAnimation },
+                { from: STATES.STATE_JUMPING, to: STATES.STATE_CRASHED },
+                { from: STATES.STATE_JUMPING, to: STATES.STATE_DEAD },
+                { from: STATES.STATE_CRASHED, to: STATES.STATE_SKIING },
+                { from: STATES.STATE_CRASHED, to: STATES.STATE_DEAD }
+            ]
+        );
+    }
+
     /**
      * Is the skier currently in the crashed state
      */
     isCrashed(): boolean {
-        return this.state === STATES.STATE_CRASHED;
+        return this.stateMachine.is(STATES.STATE_CRASHED);
     }
 
     /**
      * Is the skier currently in the skiing state
      */
     isSkiing(): boolean {
-        return this.state === STATES.STATE_SKIING;
+        return this.stateMachine.is(STATES.STATE_SKIING);
     }
 
     /**
      * Is the skier currently in the jumping state
      */
     isJumping(): boolean {
-        return this.state === STATES.STATE_JUMPING;
+        return this.stateMachine.is(STATES.STATE_JUMPING);
     }
 
     /**
      * Is the skier currently in the dead state
      */
     isDead(): boolean {
-        return this.state === STATES.STATE_DEAD;
+        return this.stateMachine.is(STATES.STATE_DEAD);
     }
 
     /**
@@ -164,17 +250,23 @@ export class Skier extends Entity {
      * Create and store the skier's animations.
      */
     setupAnimations(): void {
-        this.animations[STATES.STATE_JUMPING] = new Animation(
-            IMAGES_JUMPING,
-            false,
-            () => this.landFromJump(this.speed)
-        );
+        this.animations[STATES.STATE_JUMPING] = new Animation(FRAMES_JUMPING, ANIMATION_MODES.ONCE)
+            .onEvent(ANIMATION_EVENTS.LANDING_DUST, () => {
+                this.emitParticles(PARTICLE_EFFECT_NAMES.LANDING_DUST, 0, SKI_OFFSET_Y);
+            })
+            .onComplete(() => this.landFromJump(this.speed));
     }
 
     /**
-     * Set the current direction the skier is facing and update the image accordingly
+     * Set the current direction the skier is facing and update the image accordingly. Turning makes a sound and sprays
+     * up snow, and so does turning across the slope to brake.
      */
     setDirection(direction: number) {
+        if(direction !== this.direction) {
+            this.audioManager.playEffect(SOUND_NAMES.TURN, this.position);
+            this.emitParticles(PARTICLE_EFFECT_NAMES.SNOW_SPRAY, 0, SKI_OFFSET_Y);
+        }
+
         this.direction = direction;
         this.setDirectionalImage();
     }
@@ -189,44 +281,63 @@ export class Skier extends Entity {
     /**
      * Move the skier and check to see if they've hit an obstacle. The skier only moves in the skiing and jumping states. Increase the skier speed at steady intervals
      */
-    update(gameTime: number, currentScore: number) {
+    update(currentScore: number) {
+        this.storePreviousPosition();
+
         if(this.isSkiing()) {
             this.move();
             this.checkIfHitObstacle();
+            this.leaveTrail();
         }
 
         if(this.isJumping()) {
             this.move();
-            this.animate(gameTime);
+            this.animate();
             this.checkIfHitObstacle();
         }
 
         this.increaseSpeedIfThresholdMet(currentScore);
     }
 
+    /**
+     * Leave a trail in the snow behind the skier while they're skiing down the slope.
+     */
+    leaveTrail() {
+        if(this.isSkiing() && this.isMovingDownwards()) {
+            this.emitParticles(PARTICLE_EFFECT_NAMES.SKI_TRAIL, 0, SKI_OFFSET_Y);
+        }
+    }
+
     /**
      * Increase the skier speed at intervals set by the SPEED_INCREASE_THRESHOLD constant, if the skier doesn't crash or stop
      */
      increaseSpeedIfThresholdMet(currentScore: number) {
         if(currentScore % SPEED_INCREASE_THRESHOLD === 0) {
-            this.speed++;
+            this.speed += SPEED_INCREASE_PER_THRESHOLD;
         }
     }
 
     /**
      * Draw the skier if they aren't dead. If they are in the jumping state then slightly enlarge the image
      */
-    draw() {
+    draw(alpha: number = 1) {
         if(this.isDead()) {
             return;
         }
 
         const enlargeImage = this.isJumping();
-        super.draw(enlargeImage);
+        super.draw(alpha, enlargeImage);
     }
 
     /**
-     * Move the skier based upon the direction they're currently facing. This handles frame update movement.
+     * A jumping skier is in the air, so they're drawn over everything on the slope.
+     */
+    getRenderLayer(): RENDER_LAYERS {
+        return this.isJumping() ? RENDER_LAYERS.AIR : RENDER_LAYERS.WORLD;
+    }
+
+    /**
+     * Move the skier based upon the direction they're currently facing. This handles simulation step movement.
      */
     move() {
         switch(this.direction) {
@@ -247,11 +358,20 @@ export class Skier extends Entity {
     }
 
     /**
-     * Move the skier left. Since completely horizontal movement isn't frame based, just move incrementally based upon
-     * the starting speed.
+     * How far the skier travels in a single simulation step at their current speed, reduced if they're skiing through
+     * an obstacle that slows them down.
+     */
+    getStepDistance(): number {
+        const currentSpeed = this.slowedDown ? this.speed * SLOWED_DOWN_SPEED_REDUCER : this.speed;
+        return currentSpeed * SIMULATION_STEP_SECONDS;
+    }
+
+    /**
+     * Move the skier left. Since completely horizontal movement isn't step based, just move incrementally by a fixed
+     * distance.
      */
     moveSkierLeft() {
-        this.position.x -= STARTING_SPEED;
+        this.position.x -= STEP_DISTANCE;
     }
 
     /**
@@ -259,15 +379,16 @@ export class Skier extends Entity {
      * of a right triangle hypotenuse to ensure consistent traveling speed at an angle.
      */
     moveSkierLeftDown() {
-        this.position.x -= this.speed / DIAGONAL_SPEED_REDUCER;
-        this.position.y += this.speed / DIAGONAL_SPEED_REDUCER;
+        const stepDistance = this.getStepDistance();
+        this.position.x -= stepDistance / DIAGONAL_SPEED_REDUCER;
+        this.position.y += stepDistance / DIAGONAL_SPEED_REDUCER;
     }
 
     /**
      * Move the skier down at the speed they're traveling.
      */
     moveSkierDown() {
-        this.position.y += this.speed;
+        this.position.y += this.getStepDistance();
     }
 
     /**
@@ -275,50 +396,57 @@ export class Skier extends Entity {
      * of a right triangle hypotenuse to ensure consistent traveling speed at an angle.
      */
     moveSkierRightDown() {
-        this.position.x += this.speed / DIAGONAL_SPEED_REDUCER;
-        this.position.y += this.speed / DIAGONAL_SPEED_REDUCER;
+        const stepDistance = this.getStepDistance();
+        this.position.x += stepDistance / DIAGONAL_SPEED_REDUCER;
+        this.position.y += stepDistance / DIAGONAL_SPEED_REDUCER;
     }
 
     /**
-     * Move the skier right. Since completely horizontal movement isn't frame based, just move incrementally based upon
-     * the starting speed.
+     * Move the skier right. Since completely horizontal movement isn't step based, just move incrementally by a fixed
+     * distance.
      */
     moveSkierRight() {
-        this.position.x += STARTING_SPEED;
+        this.position.x += STEP_DISTANCE;
     }
 
     /**
-     * Move the skier up. Since moving up isn't frame based, just move incrementally based upon
-     * the starting speed.
+     * Move the skier up. Since moving up isn't step based, just move incrementally by a fixed distance.
      */
     moveSkierUp() {
-        this.position.y -= STARTING_SPEED;
+        this.position.y -= STEP_DISTANCE;
     }
 
     /**
-     * Handle keyboard input. If the skier is dead, don't handle any input.
+     * Handle the player's actions. If the skier is dead, don't handle any input. Actions the skier can't carry out in
+     * their current state are still handled, but ignored.
      */
-    handleInput(inputKey: string) {
+    handleInput(action: ACTIONS) {
         if(this.isDead()) {
             return false;
         }
 
+        // Anything a skiing skier can do is still handled in other states, so it isn't passed on, but it's ignored
+        const allowedActions = STATE_ACTIONS[this.stateMachine.getState()];
+        if(!allowedActions.includes(action)) {
+            return STATE_ACTIONS[STATES.STATE_SKIING].includes(action);
+        }
+
         let handled: boolean = true;
 
-        switch(inputKey) {
-            case KEYS.SPACE:
+        switch(action) {
+            case ACTIONS.JUMP:
                 this.jump();
                 break;
-            case KEYS.LEFT:
+            case ACTIONS.TURN_LEFT:
                 this.turnLeft();
                 break;
-            case KEYS.RIGHT:
+            case ACTIONS.TURN_RIGHT:
                 this.turnRight();
                 break;
-            case KEYS.UP:
+            case ACTIONS.UP:
                 this.turnUp();
                 break;
-            case KEYS.DOWN:
+            case ACTIONS.DOWN:
                 this.turnDown();
                 break;
             default:
@@ -330,50 +458,52 @@ export class Skier extends Entity {
 
     /**
      * Turn the skier left. If they're already completely facing left, move them left. Otherwise, change their direction
-     * one step left. If they're in the crashed state, then first recover them from the crash.
-     * If they're in the jumping state, then do not turn
+     * one step left. If they're in the crashed state, then first recover them from the crash, facing left.
      */
     turnLeft() {
         if(this.isCrashed()) {
             this.recoverFromCrash(DIRECTION_LEFT);
         }
 
-        if(this.state !== STATES.STATE_JUMPING) {
-            if(this.direction === DIRECTION_LEFT) {
-                this.moveSkierLeft();
-            }
-            else {
-                this.setDirection(this.direction - 1);
-            }
+        if(!this.isSkiing()) {
+            return;
+        }
+
+        if(this.direction === DIRECTION_LEFT) {
+            this.moveSkierLeft();
+        }
+        else {
+            this.setDirection(this.direction - 1);
         }
     }
 
     /**
      * Turn the skier right. If they're already completely facing right, move them right. Otherwise, change their direction
-     * one step right. If they're in the crashed state, then first recover them from the crash.
-     * If they're in the jumping state, then do not turn
+     * one step right. If they're in the crashed state, then first recover them from the crash, facing right.
      */
     turnRight() {
         if(this.isCrashed()) {
             this.recoverFromCrash(DIRECTION_RIGHT);
         }
 
-        if(this.state !== STATES.STATE_JUMPING) {
-            if(this.direction === DIRECTION_RIGHT) {
-                this.moveSkierRight();
-            }
-            else {
-                this.setDirection(this.direction + 1);
-            }
+        if(!this.isSkiing()) {
+            return;
+        }
+
+        if(this.direction === DIRECTION_RIGHT) {
+            this.moveSkierRight();
+        }
+        else {
+            this.setDirection(this.direction + 1);
         }
     }
 
     /**
      * Turn the skier up which basically means if they're facing left or right, then move them up a bit in the game world.
-     * If they're in the crashed state, do nothing as you can't move up if you're crashed.
+     * They can only do this while skiing, as you can't move up if you're crashed or in the air.
      */
     turnUp() {
-        if(this.isCrashed()) {
+        if(!this.isSkiing()) {
             return;
         }
 
@@ -384,10 +514,10 @@ export class Skier extends Entity {
 
     /**
      * Turn the skier to face straight down. If they're crashed don't do anything to require them to move left or right
-     * to escape an obstacle before skiing down again.
+     * to escape an obstacle before skiing down again, and if they're in the air they can't turn.
      */
     turnDown() {
-        if(this.isCrashed()) {
+        if(!this.isSkiing()) {
             return;
         }
 
@@ -395,103 +525,94 @@ export class Skier extends Entity {
     }
 
     /**
-     * Put the skier into the jumping state. If they're crashed don't do anything to require them to move left or right
-     * to escape an obstacle before attempting to jump again.
+     * Put the skier into the jumping state. Only a skiing skier can jump: if they're crashed they have to move left or
+     * right to escape an obstacle before attempting to jump again, and if they're already in the air they have to land
+     * first.
      */
     jump(): void {
-        if(this.isCrashed()) {
-            return;
-        }
-
-        this.state = STATES.STATE_JUMPING;
-        this.setAnimation(this.state);
+        this.stateMachine.transition(STATES.STATE_JUMPING);
     }
 
     /**
-     * The skier has a bit different bounds calculating than a normal entity to make the collision with obstacles more
-     * natural. We want te skier to end up in the obstacle rather than right above it when crashed, so move the bottom
-     * boundary up.
+     * The skier has left the ground, so start the jump playing. They land when it's played out.
      */
-    getBounds(): Rect | null {
-        const image = this.imageManager.getImage(this.imageName);
-        if(!image) {
-            return null;
-        }
-
-        return new Rect(
-            this.position.x - image.width / 2,
-            this.position.y - image.height / 2,
-            this.position.x + image.width / 2,
-            this.position.y - image.height / 4
-        );
+    takeOff() {
+        this.audioManager.playEffect(SOUND_NAMES.JUMP, this.position);
+        this.setAnimation(STATES.STATE_JUMPING);
     }
 
     /**
-     * Go through all the obstacles in the game and see if the skier interacts with any of them. If so, carry out the skier interaction as determined by the obstacle type and the skier state.
+     * Look up the obstacles near the skier in the obstacle grid and see if the skier's hitbox touches any of them. While skiing, only an obstacle's trunk can be hit, but in the air the whole obstacle is in the way. If so, carry out the skier interaction as determined by the obstacle type and the skier state.
      */
     checkIfHitObstacle() {
+        this.slowedDown = false;
+
         const skierBounds = this.getBounds();
         if(!skierBounds) {
             return;
         }
 
-        let obstacleName: IMAGE_NAMES | null = null;
-
-        const interaction = this.obstacleManager.getObstacles().find((obstacle: Obstacle): boolean => {
-            const obstacleBounds = obstacle.getBounds();
-            if(!obstacleBounds) {
-                return false;
+        const skierHitbox = this.getHitbox();
+        const interaction: Obstacle | undefined = this.obstacleManager.getObstaclesInRect(skierBounds).find(
+            (obstacle: Obstacle) => {
+                const obstacleHitbox = this.isJumping() ? obstacle.getHitbox() : obstacle.getTrunkHitbox();
+                return intersectHitboxes(skierHitbox, obstacleHitbox);
             }
+        );
 
-            obstacleName = obstacle.imageName;
-
-            return intersectTwoRects(skierBounds, obstacleBounds);
-        });
-
-        if(interaction && obstacleName) {
-            this.interactWithObstacle(obstacleName);
+        if(interaction) {
+            this.interactWithObstacle(interaction.type);
         }
     }
 
     /**
      * Determine how the skier interacts with obstacles based on their current state
      */
-    interactWithObstacle(obstacle: IMAGE_NAMES) {
-        if(this.state === STATES.STATE_SKIING){
+    interactWithObstacle(obstacle: iObstacleType) {
+        if(this.isSkiing()){
             this.interactWhileSkiing(obstacle);
         }
-
-        if(this.state === STATES.STATE_JUMPING){
+        else if(this.isJumping()){
             this.interactWhileJumping(obstacle);
         }
     }
 
     /**
-     * Determine how the skier interacts with various obstacles while skiing. Ramps cause the skier to jump while other obstacles cause the skier to crash
+     * Determine how the skier interacts with various obstacles while skiing, as declared by the obstacle's type. Some obstacles cause the skier to jump, some cause the skier to crash and others slow the skier down
      */
-    interactWhileSkiing(obstacle: IMAGE_NAMES) {
-        if(obstacle === IMAGE_NAMES.JUMP_RAMP) {
+    interactWhileSkiing(obstacle: iObstacleType) {
+        if(obstacle.triggersJump) {
             this.jump();
-        } else {
+        } else if(obstacle.crash) {
             this.crash();
+        } else if(obstacle.slowsDown) {
+            this.slowedDown = true;
         }
     }
 
     /**
-     * Determine how the skier interacts with various obstacles while jumping. The skier is able to jump over a select group of obstacles but crashes when attempting to jump over the other obstacles
+     * Determine how the skier interacts with various obstacles while jumping. The skier is able to jump over jumpable obstacles but crashes when attempting to jump over the other obstacles
      */
-    interactWhileJumping(imageName: IMAGE_NAMES) {
-        if(!JUMPABLE_OBSTACLES.includes(imageName)) {
+    interactWhileJumping(obstacle: iObstacleType) {
+        if(!obstacle.jumpable) {
             this.crash();
         }
     }
 
     /**
-     * Crash the skier. Set the state to crashed, set the speed to zero cause you can't move when crashed and update the
-     * image.
+     * Crash the skier by putting them into the crashed state. A skier who's already crashed, or dead, can't crash.
      */
     crash() {
-        this.state = STATES.STATE_CRASHED;
+        this.stateMachine.transition(STATES.STATE_CRASHED);
+    }
+
+    /**
+     * The skier has crashed. Set the speed to zero cause you can't move when crashed and update the image.
+     */
+    crashed() {
+        this.audioManager.playEffect(SOUND_NAMES.CRASH, this.position);
+        this.emitParticles(PARTICLE_EFFECT_NAMES.CRASH_BURST);
+
         this.speed = 0;
         this.imageName = IMAGE_NAMES.SKIER_CRASH;
     }
@@ -501,25 +622,38 @@ export class Skier extends Entity {
      * whichever direction they're recovering to.
      */
     recoverFromCrash(newDirection: number) {
-        this.state = STATES.STATE_SKIING;
+        if(!this.stateMachine.transition(STATES.STATE_SKIING)) {
+            return;
+        }
+
         this.speed = STARTING_SPEED;
         this.setDirection(newDirection);
     }
 
     /**
-     * Change the skier back to the skiing state, get them moving again at the speed they had before the jump.
+     * Change the skier back to the skiing state, get them moving again at the speed they had before the jump. They can
+     * only land once the jump has played out.
      */
     landFromJump(currentSpeed: number) {
-        this.state = STATES.STATE_SKIING;
+        if(!this.stateMachine.transition(STATES.STATE_SKIING)) {
+            return;
+        }
+
+        this.audioManager.playEffect(SOUND_NAMES.LAND, this.position);
+
         this.imageName = DIRECTION_IMAGES[this.direction];
         this.speed = currentSpeed;
     }
 
     /**
-     * Kill the skier by putting them into the "dead" state and stopping their movement.
+     * Kill the skier by putting them into the "dead" state, stopping their movement and remembering what killed them.
+     * They can only die once.
      */
-    die() {
-        this.state = STATES.STATE_DEAD;
-        this.speed = 0;
+    die(cause: CAUSES_OF_DEATH) {
+        if(!this.stateMachine.transition(STATES.STATE_DEAD)) {
+            return;
+        }
+
+        this.causeOfDeath = cause;
     }
 }
\ No newline at end of file
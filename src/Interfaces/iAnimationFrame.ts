@@ -0,0 +1,12 @@
+/**
+ * Interface for a single frame of an animation: the image shown, how long it's shown for in ms when played at the
+ * normal rate, and the event fired when the frame starts showing, if any.
+ */
+
+import { ANIMATION_EVENTS, IMAGE_NAMES } from "../Constants";
+
+export interface iAnimationFrame {
+    image: IMAGE_NAMES;
+    durationMs: number;
+    event?: ANIMATION_EVENTS;
+}
\ No newline at end of file
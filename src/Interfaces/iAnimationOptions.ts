@@ -0,0 +1,10 @@
+/**
+ * Interface for the optional settings of an animation. A reversed animation plays from its last frame to its first. An
+ * animation with a base speed plays faster or slower in proportion to how fast the entity is moving compared to it, so
+ * e.g. legs keep up with the ground, while one without plays at the normal rate no matter the speed.
+ */
+
+export interface iAnimationOptions {
+    reversed?: boolean;
+    baseSpeed?: number;
+}
\ No newline at end of file
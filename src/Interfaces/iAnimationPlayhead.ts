@@ -0,0 +1,9 @@
+/**
+ * Interface for where playback of an animation is: the index of the frame showing and the direction it's playing in, 1
+ * for forwards through the frames and -1 for backwards.
+ */
+
+export interface iAnimationPlayhead {
+    frame: number;
+    direction: number;
+}
\ No newline at end of file
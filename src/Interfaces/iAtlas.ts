@@ -0,0 +1,29 @@
+/**
+ * Interface for a texture atlas: a single sheet image with many sprites packed into it, and the url of the JSON frame
+ * map that says where each sprite is in the sheet.
+ */
+
+import { ATLAS_NAMES } from "../Constants";
+
+export interface iAtlas {
+    name: ATLAS_NAMES;
+    url: string;
+    framesUrl: string;
+}
+
+/**
+ * Interface for where a sprite is in an image, in the image's pixels
+ */
+export interface iAtlasFrame {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Interface for an atlas's JSON frame map, keyed by image name
+ */
+export interface iAtlasFrames {
+    frames: {[name: string]: iAtlasFrame};
+}
\ No newline at end of file
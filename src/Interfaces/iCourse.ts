@@ -0,0 +1,26 @@
+/**
+ * Interface for a handcrafted course. Rather than being generated from a seed, a course lists every obstacle by type
+ * and world position, along with where the skier starts, where the rhino spawns and the height of the finish line.
+ */
+
+import { OBSTACLE_NAMES } from "../Constants";
+
+export interface iCourseObstacle {
+    type: OBSTACLE_NAMES;
+    x: number;
+    y: number;
+}
+
+export interface iCourse {
+    version: number;
+    name: string;
+    start: { x: number, y: number };
+    rhinoSpawn: { x: number, y: number };
+
+    /**
+     * The course is finished once the skier gets this far down the hill
+     */
+    finishLineY: number;
+
+    obstacles: iCourseObstacle[];
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+/**
+ * Interface for a draw call logged by the recording canvas. Sprites are logged by their name and where they ended
+ * up on the screen, after the camera transform, so a logged frame shows exactly what was drawn where.
+ */
+
+export interface iDrawCall {
+    method: 'clearCanvas' | 'drawSprite' | 'drawText' | 'drawRect' | 'drawPolygon';
+    args: (string | number)[];
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * Interfaces for the options passed to a headless simulated run and the result that comes back from it, and for the
+ * options passed when rendering a single frame headless
+ */
+
+export interface iHeadlessRunOptions {
+    seed: number;
+    width: number;
+    height: number;
+    maxSteps?: number;
+}
+
+export interface iHeadlessRunResult {
+    seed: number;
+    steps: number;
+    gameTime: number;
+    score: number;
+    distance: number;
+    skierDead: boolean;
+}
+
+export interface iHeadlessFrameOptions {
+    seed: number;
+    width: number;
+    height: number;
+    steps: number;
+}
\ No newline at end of file
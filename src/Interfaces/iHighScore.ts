@@ -0,0 +1,11 @@
+/**
+ * Interface for a single entry in the high score table
+ */
+
+export interface iHighScore {
+    initials: string;
+    score: number;
+    distance: number;
+    seed: number;
+    date: string;
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+/**
+ * Interface for the hitbox of a sprite. Shapes are positioned relative to the center of the sprite, in the same natural
+ * pixel sizes as the image manifest, and are scaled along with the sprite.
+ */
+
+export interface iHitboxRect {
+    type: 'rect';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface iHitboxCircle {
+    type: 'circle';
+    x: number;
+    y: number;
+    radius: number;
+}
+
+export type iHitboxShape = iHitboxRect | iHitboxCircle;
+
+export interface iHitbox {
+    /**
+     * The shapes that make up the outline of the sprite
+     */
+    shapes: iHitboxShape[];
+
+    /**
+     * The part that can't be passed through at ground level, such as the trunk of a tree. If not given, the whole
+     * outline is used.
+     */
+    trunk?: iHitboxShape[];
+}
\ No newline at end of file
@@ -1,10 +1,25 @@
 /**
- * Interface for an Image to provide a name and url
+ * Interface for an Image to provide a name, where to load it from and the natural size of the image. An image is either
+ * its own file at the url, or a frame of the named atlas, found in the atlas's frame map by the image's name. Images are
+ * drawn at their natural size multiplied by their scale, or by the default scale if they don't have one.
  */
 
-import { IMAGE_NAMES } from "../Constants";
+import { ATLAS_NAMES, IMAGE_NAMES } from "../Constants";
+import { iAtlas } from "./iAtlas";
 
 export interface iImage {
     name: IMAGE_NAMES;
-    url: string;
+    url?: string;
+    atlas?: ATLAS_NAMES;
+    width: number;
+    height: number;
+    scale?: number;
+}
+
+/**
+ * Interface for the manifest of every atlas and image that can be loaded
+ */
+export interface iImageManifest {
+    atlases: iAtlas[];
+    images: iImage[];
 }
\ No newline at end of file
@@ -0,0 +1,12 @@
+/**
+ * Interface for an input device. Each source listens to its own device and turns what it sees into actions, which
+ * are passed to the action handler. The handler returns whether the action was used.
+ */
+
+import { ACTIONS } from "../Constants";
+
+export type ActionHandler = (action: ACTIONS) => boolean;
+
+export interface iInputSource {
+    attach(handleAction: ActionHandler): void;
+}
\ No newline at end of file
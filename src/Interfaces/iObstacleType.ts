@@ -0,0 +1,55 @@
+/**
+ * Interface for an entry in the obstacle type registry. Everything about how an obstacle type looks, how often it's
+ * placed and how things interact with it is declared here, so adding a new obstacle is a single entry.
+ */
+
+import { IMAGE_NAMES, OBSTACLE_NAMES, RENDER_LAYERS } from "../Constants";
+
+export interface iObstacleType {
+    name: OBSTACLE_NAMES;
+
+    /**
+     * The image the obstacle is drawn with
+     */
+    image: IMAGE_NAMES;
+
+    /**
+     * How likely the type is to be picked when an obstacle is placed, relative to the other types
+     */
+    spawnWeight: number;
+
+    /**
+     * How far the hitbox is shrunk in from each edge of the sprite, in world units
+     */
+    hitboxInset: number;
+
+    /**
+     * Can the skier jump over it without crashing
+     */
+    jumpable: boolean;
+
+    /**
+     * Does the skier crash when skiing into it
+     */
+    crash: boolean;
+
+    /**
+     * Does the skier jump when skiing into it
+     */
+    triggersJump: boolean;
+
+    /**
+     * Is anything ploughing through it slowed down
+     */
+    slowsDown: boolean;
+
+    /**
+     * Does the rhino have to find a way around it rather than running through it
+     */
+    blocksRhino: boolean;
+
+    /**
+     * The layer the obstacle is drawn in
+     */
+    layer: RENDER_LAYERS;
+}
\ No newline at end of file
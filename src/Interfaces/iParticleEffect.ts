@@ -0,0 +1,52 @@
+/**
+ * Interface for a particle effect: how many particles are emitted at once and how they move, grow or shrink and fade
+ * over their lifetime.
+ */
+
+export interface iParticleEffect {
+    /**
+     * How many particles are emitted each time the effect is emitted
+     */
+    count: number;
+
+    /**
+     * How far from the emitter's position particles can appear, in world units
+     */
+    scatter: number;
+
+    /**
+     * The direction particles are thrown in, in radians clockwise from straight right (so up the slope is -PI / 2), and
+     * how far to either side of it they can go
+     */
+    direction: number;
+    spread: number;
+
+    /**
+     * The range of speeds particles are thrown at, in world units per second
+     */
+    minSpeed: number;
+    maxSpeed: number;
+
+    /**
+     * How much of its speed a particle keeps after each second
+     */
+    drag: number;
+
+    /**
+     * How long a particle lasts, in ms
+     */
+    lifetime: number;
+
+    /**
+     * The size of a particle when it's emitted and when it's faded out, in world units
+     */
+    startSize: number;
+    endSize: number;
+
+    /**
+     * The RGB color of the particles, e.g. '200, 210, 225', and how opaque they are when emitted. They fade out to
+     * nothing over their lifetime.
+     */
+    color: string;
+    opacity: number;
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+/**
+ * Interface for a split time in a slalom race: the time since the start gate that the skier reached a gate, and whether
+ * they went between its flags.
+ */
+
+export interface iRaceSplit {
+    gateNumber: number;
+    time: number;
+    missed: boolean;
+}
\ No newline at end of file
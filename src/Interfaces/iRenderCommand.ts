@@ -0,0 +1,18 @@
+/**
+ * Interface for something waiting to be drawn in the render queue: which layer it's drawn in, where it's sorted within
+ * that layer and how to draw it.
+ */
+
+import { RENDER_LAYERS } from "../Constants";
+
+export interface iRenderCommand {
+    layer: RENDER_LAYERS;
+
+    /**
+     * Commands in the same layer are drawn in order of this, lowest first. For anything standing on the slope it's how
+     * far down the slope it touches the ground, so things further down are drawn in front.
+     */
+    sortKey: number;
+
+    draw: () => void;
+}
\ No newline at end of file
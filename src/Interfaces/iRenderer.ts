@@ -0,0 +1,26 @@
+/**
+ * Interface for anything the game can be drawn to. Implemented by the HTML Canvas with either a 2D or a WebGL backend in
+ * the browser, by a null canvas that draws nothing, so the game can be simulated headless, and by a recording canvas
+ * that logs every draw call, so frames can be checked in tests. Sprites, which may be a frame of an atlas, are drawn in world coordinates through the
+ * camera transform, while text, rectangles and polygons are drawn in screen coordinates.
+ */
+
+import { Position, Rect } from "../Core/Utils";
+import { iSprite } from "./iSprite";
+
+export interface iRenderer {
+    width: number;
+    height: number;
+    drawOffset: Position;
+    zoom: number;
+    resize(width: number, height: number): void;
+    clearCanvas(): void;
+    setCameraTransform(x: number, y: number, zoom: number): void;
+    worldToScreen(x: number, y: number): Position;
+    getVisibleArea(): Rect;
+    drawSprite(sprite: iSprite, x: number, y: number, width: number, height: number): void;
+    drawText(text: string, x: number, y: number, font: string): void;
+    drawRect(x: number, y: number, width: number, height: number, color?: string): void;
+    drawPolygon(points: Position[], color?: string): void;
+    flush(): void;
+}
\ No newline at end of file
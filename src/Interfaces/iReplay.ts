@@ -0,0 +1,25 @@
+/**
+ * Interface for a recorded replay. Stores everything needed to reproduce a run exactly: the world seed, the viewport
+ * size the world was laid out against and every input as a compact [step, action] pair, where step is the simulation
+ * step the input arrived before. The viewport can be resized during a run, so any resizes are stored the same way, as
+ * [step, width, height]. Runs on a handcrafted course also store the course, as it can't be generated from the seed,
+ * and runs in any mode other than endless store the mode.
+ */
+
+import { ACTIONS, GAME_MODES } from "../Constants";
+import { iCourse } from "./iCourse";
+
+export type ReplayInput = [number, ACTIONS];
+export type ReplayResize = [number, number, number];
+
+export interface iReplay {
+    version: number;
+    seed: number;
+    width: number;
+    height: number;
+    steps: number;
+    inputs: ReplayInput[];
+    resizes?: ReplayResize[];
+    course?: iCourse;
+    mode?: GAME_MODES;
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+/**
+ * Interface for a Sound to provide a name and the url of the sound file
+ */
+
+import { SOUND_NAMES } from "../Constants";
+
+export interface iSound {
+    name: SOUND_NAMES;
+    url: string;
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+/**
+ * Interface for a loaded sprite, ready to be drawn: the image it's in, where it is in that image and the size it's
+ * drawn at. Sprites from an atlas share the atlas's sheet, and sprites that couldn't be loaded share the placeholder.
+ * Sprites made for running headless have no image, as there's nothing to load it with.
+ */
+
+import { IMAGE_NAMES } from "../Constants";
+import { iAtlasFrame } from "./iAtlas";
+
+export interface iSprite {
+    name: IMAGE_NAMES;
+    image: HTMLImageElement | HTMLCanvasElement | null;
+    frame: iAtlasFrame;
+    width: number;
+    height: number;
+}
\ No newline at end of file
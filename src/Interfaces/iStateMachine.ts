@@ -0,0 +1,16 @@
+/**
+ * Interfaces for setting up a state machine. Each state can have hooks that are called as it's entered, with the state
+ * it's entered from, and as it's exited, with the state it's exited to. Each transition is declared from one state to
+ * another, and can have a guard that has to pass for the transition to be made.
+ */
+
+export interface iStateHooks<S> {
+    onEnter?: (from: S) => void;
+    onExit?: (to: S) => void;
+}
+
+export interface iStateTransition<S> {
+    from: S;
+    to: S;
+    guard?: () => boolean;
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Snapshot tests for frames rendered headless. A seeded run is simulated and a frame rendered to the recording canvas,
+ * and the draw calls it logged are compared against the snapshot, so any change to what's drawn where shows up here.
+ */
+
+import { renderFrame } from "./headless";
+import { iDrawCall } from "./Interfaces/iDrawCall";
+
+const FRAME_OPTIONS = { seed: 1234, width: 800, height: 600 };
+
+/**
+ * Long enough for the skier to have travelled down the slope and past the first obstacles, but not for the rhino to
+ * have turned up. With this seed, they've crashed into a tree by then.
+ */
+const STEPS: number = 180;
+
+describe('renderFrame', () => {
+    it('draws the same frame for the same seed', () => {
+        const frame = renderFrame({ ...FRAME_OPTIONS, steps: STEPS });
+        expect(renderFrame({ ...FRAME_OPTIONS, steps: STEPS })).toEqual(frame);
+    });
+
+    it('starts each frame by clearing the canvas and draws the skier in it', () => {
+        const frame = renderFrame({ ...FRAME_OPTIONS, steps: STEPS });
+
+        expect(frame[0]).toEqual({ method: 'clearCanvas', args: [] });
+        expect(frame.some((drawCall: iDrawCall) => {
+            return drawCall.method === 'drawSprite' && String(drawCall.args[0]).includes('skier');
+        })).toBe(true);
+    });
+
+    it('matches the snapshot of the first frame', () => {
+        expect(renderFrame({ ...FRAME_OPTIONS, steps: 0 })).toMatchSnapshot();
+    });
+
+    it('matches the snapshot of a seeded frame', () => {
+        expect(renderFrame({ ...FRAME_OPTIONS, steps: STEPS })).toMatchSnapshot();
+    });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+/**
+ * The entry point for running the game headless, without a DOM or canvas (e.g. under Node, in jest or on the server).
+ * The game is simulated against a NullCanvas of the given viewport size, with sprite sizes taken from the image
+ * manifest, so many runs can be simulated quickly and reproduced from their seeds. A single frame can also be rendered
+ * to a RecordingCanvas, to compare what it draws against a snapshot.
+ */
+
+import { SIMULATION_STEP_MS } from './Constants';
+import { Game } from './Core/Game';
+import { NullCanvas } from './Core/NullCanvas';
+import { RecordingCanvas } from './Core/RecordingCanvas';
+import { iDrawCall } from './Interfaces/iDrawCall';
+import { iHeadlessFrameOptions, iHeadlessRunOptions, iHeadlessRunResult } from './Interfaces/iHeadlessRun';
+
+/**
+ * Simulated runs stop after this many steps if the skier hasn't been caught, which is ten minutes of game time.
+ */
+const DEFAULT_MAX_STEPS: number = (10 * 60 * 1000) / SIMULATION_STEP_MS;
+
+/**
+ * Simulate a single run without any input until the skier is caught by the rhino or the step limit is reached.
+ */
+export function simulateRun(options: iHeadlessRunOptions): iHeadlessRunResult {
+    const maxSteps: number = options.maxSteps ?? DEFAULT_MAX_STEPS;
+    const game: Game = new Game(new NullCanvas(options.width, options.height), options.seed);
+
+    let steps: number = 0;
+    while(steps < maxSteps && !game.isSkierDead()) {
+        game.step();
+        steps++;
+    }
+
+    return {
+        seed: game.getSeed(),
+        steps,
+        gameTime: game.getGameTime(),
+        score: game.getCurrentScore(),
+        distance: game.getDistance(),
+        skierDead: game.isSkierDead()
+    };
+}
+
+/**
+ * Simulate a run for each of the seeds passed in.
+ */
+export function simulateRuns(seeds: number[], width: number, height: number, maxSteps?: number): iHeadlessRunResult[] {
+    return seeds.map((seed: number) => simulateRun({ seed, width, height, maxSteps }));
+}
+
+/**
+ * Simulate the given number of steps without any input, then render a single frame and return every draw call it made.
+ */
+export function renderFrame(options: iHeadlessFrameOptions): iDrawCall[] {
+    const canvas: RecordingCanvas = new RecordingCanvas(options.width, options.height);
+    const game: Game = new Game(canvas, options.seed);
+    game.loadHeadless();
+
+    for(let step = 0; step < options.steps; step++) {
+        game.step();
+    }
+
+    game.render(1);
+    return canvas.getDrawCalls();
+}
\ No newline at end of file
@@ -1,12 +1,82 @@
 /**
  * The entry point for the game. Creates the game, kicks off any loading that's needed and then starts the game running.
+ * The world is generated from the seed in the URL (e.g. ?seed=1234) if there is one, otherwise from a fresh seed.
+ * If a replay file was dropped onto the page, the replay is played back instead, and if a course file was dropped onto
+ * the page, or played from the course editor, the course is played. Opening the page with ?mode=slalom plays a slalom
+ * race instead of the endless game and opening it with ?editor opens the course editor. The canvas follows the size
+ * and pixel ratio of the browser window as they change. The game is drawn with WebGL where it's supported, unless it's
+ * opened with ?renderer=canvas to use the 2D canvas instead.
  */
 
 import '../css/game.css';
+import { GAME_CANVAS, GAME_MODES, HITBOXES, IMAGES } from './Constants';
+import { Canvas } from './Core/Canvas';
+import { CourseEditor } from './Core/CourseEditor';
+import { takePendingCourse } from './Core/CourseFile';
+import { listenForDroppedFiles } from './Core/DroppedFiles';
 import { Game } from './Core/Game';
+import { ImageManager } from './Core/ImageManager';
+import { chooseSeed } from './Core/Random';
+import { takePendingReplay } from './Core/ReplayFile';
+import { ReplayPlayer } from './Core/ReplayPlayer';
+import { createRenderer } from './Core/RendererFactory';
+import { listenForViewportChanges } from './Core/Viewport';
+import { iCourse } from './Interfaces/iCourse';
+import { iRenderer } from './Interfaces/iRenderer';
+import { iReplay } from './Interfaces/iReplay';
 
 document.addEventListener("DOMContentLoaded",async () => {
-    const skiGame: Game = new Game();
+    const searchParams = new URLSearchParams(window.location.search);
+    if(searchParams.has('editor')) {
+        await openCourseEditor();
+        return;
+    }
+
+    listenForDroppedFiles();
+
+    const replay: iReplay | null = takePendingReplay();
+    if(replay) {
+        await playReplay(replay);
+        return;
+    }
+
+    const course: iCourse | null = takePendingCourse();
+    const mode: GAME_MODES = searchParams.get('mode') === GAME_MODES.SLALOM ? GAME_MODES.SLALOM : GAME_MODES.ENDLESS;
+    const seed: number = chooseSeed(window.location.search);
+    const canvas: iRenderer = createRenderer(GAME_CANVAS, window.innerWidth, window.innerHeight, window.location.search);
+    const skiGame: Game = new Game(canvas, seed, course, mode);
+    skiGame.setupInputHandling();
+    listenForViewportChanges((width: number, height: number) => skiGame.resize(width, height));
     await skiGame.load();
     skiGame.run();
-});
\ No newline at end of file
+});
+
+/**
+ * Play back a replay. The canvas is sized to match the viewport the replay was recorded in, as the world is laid out
+ * against it, so only changes to the pixel ratio are followed.
+ */
+async function playReplay(replay: iReplay) {
+    const canvas: iRenderer = createRenderer(GAME_CANVAS, replay.width, replay.height, window.location.search);
+    const skiGame: Game = new Game(canvas, replay.seed, replay.course ?? null, replay.mode);
+    const replayPlayer: ReplayPlayer = new ReplayPlayer(skiGame, canvas, replay);
+    replayPlayer.setupInputHandling();
+    listenForViewportChanges(() => canvas.resize(canvas.width, canvas.height));
+    await skiGame.load();
+    replayPlayer.run();
+}
+
+/**
+ * Open the course editor, once the sprites it draws the course with are loaded.
+ */
+async function openCourseEditor() {
+    const canvas: Canvas = new Canvas(GAME_CANVAS, window.innerWidth, window.innerHeight);
+    const imageManager: ImageManager = new ImageManager(IMAGES, HITBOXES);
+    const courseEditor: CourseEditor = new CourseEditor(canvas, imageManager);
+    courseEditor.setupInputHandling();
+    listenForViewportChanges((width: number, height: number) => {
+        canvas.resize(width, height);
+        courseEditor.draw();
+    });
+    await imageManager.loadImages();
+    courseEditor.draw();
+}
\ No newline at end of file
@@ -37,7 +37,8 @@ const config = {
         }),
         new CopyPlugin({
             patterns: [
-                {from: 'img/*', to: ''}
+                {from: 'img/*', to: ''},
+                {from: 'audio/*', to: ''}
             ]
         })
     ],
@@ -0,0 +1,33 @@
+const path = require('path');
+
+// Webpack Configuration for the headless build, which runs the game simulation under Node without a DOM or canvas
+const config = {
+
+    entry: ['./src/headless.ts'],
+
+    target: 'node',
+
+    output: {
+        path: path.resolve(__dirname, './dist'),
+        filename: 'headless.js',
+        library: {
+            type: 'commonjs2',
+        },
+    },
+
+    module: {
+        rules : [
+            {
+                test: /\.ts$/,
+                exclude: /node_modules/,
+                use: ['ts-loader'],
+            }
+        ]
+    },
+
+    resolve: {
+        extensions: [".ts", ".js"],
+    },
+};
+
+module.exports = config;
\ No newline at end of file